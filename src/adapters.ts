@@ -0,0 +1,153 @@
+import { isAbsolute, join, resolve } from "node:path";
+import { SearchAdapter } from "./types.js";
+import { createRequire } from "node:module";
+import { isBuiltInType } from "./providers/index.js";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { statSync } from "node:fs";
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const ADAPTER_FUNCTIONS = ["detect", "executeSearch", "formatErrorMessage"] as const;
+const LOCAL_SPECIFIER_PATTERN = /^\.{1,2}[/\\]/;
+const EMPTY_ID = "";
+const NO_MISSING = 0;
+const FILE_URL_PREFIX = "file:";
+
+// ── Validation ─────────────────────────────────────────────────────────
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Describe why `value` is not a usable adapter, or `null` when it is.
+ * `seen` holds the IDs of the adapters loaded before it.
+ */
+const findAdapterProblem = (value: unknown, seen: Set<string>): string | null => {
+  if (!isRecord(value)) {
+    return "it does not export an adapter object";
+  }
+
+  const { id } = value;
+  if (typeof id !== "string" || id === EMPTY_ID) {
+    return "its `id` must be a non-empty string";
+  }
+
+  const missing = ADAPTER_FUNCTIONS.filter((name) => typeof value[name] !== "function");
+  if (missing.length > NO_MISSING) {
+    return `adapter "${id}" is missing ${missing.map((name) => `\`${name}\``).join(", ")}`;
+  }
+
+  if (value.resolveCredentials !== undefined && typeof value.resolveCredentials !== "function") {
+    return `adapter "${id}" has a \`resolveCredentials\` that is not a function`;
+  }
+
+  if (isBuiltInType(id) || seen.has(id)) {
+    return `adapter ID "${id}" is already taken`;
+  }
+
+  return null;
+};
+
+// ── Loading ────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a package from the project's `node_modules`, falling back to
+ * the plugin's own install location when the project does not have it.
+ */
+const resolvePackage = (specifier: string, worktree: string): string => {
+  try {
+    const require = createRequire(join(worktree, "package.json"));
+
+    return pathToFileURL(require.resolve(specifier)).href;
+  } catch {
+    return specifier;
+  }
+};
+
+const isLocalSpecifier = (specifier: string): boolean =>
+  LOCAL_SPECIFIER_PATTERN.test(specifier) || isAbsolute(specifier);
+
+/**
+ * Local paths (`./`, `../` or absolute) are resolved against the project
+ * worktree; anything else is an npm package.
+ */
+const resolveSpecifier = (specifier: string, worktree: string): string =>
+  isLocalSpecifier(specifier)
+    ? pathToFileURL(resolve(worktree, specifier)).href
+    : resolvePackage(specifier, worktree);
+
+/**
+ * The files of the adapters listed by a local path, to watch for edits.
+ */
+const listAdapterFiles = (specifiers: string[], worktree: string): string[] =>
+  specifiers.filter(isLocalSpecifier).map((specifier) => resolve(worktree, specifier));
+
+/**
+ * Tag a file URL with the file's modification time. Imports are cached by
+ * specifier, so an edited adapter gets a new one and is imported again on
+ * the next settings load, while an unchanged one keeps its cached module.
+ * Bun ignores the query of a `file:` URL, so it gets the tagged path.
+ */
+const withVersion = (url: string): string => {
+  if (!url.startsWith(FILE_URL_PREFIX)) {
+    return url;
+  }
+
+  const path = fileURLToPath(url);
+  const mtime = statSync(path, { throwIfNoEntry: false })?.mtimeMs;
+  if (mtime === undefined) {
+    return url;
+  }
+
+  return `${"bun" in process.versions ? path : url}?mtime=${mtime}`;
+};
+
+/**
+ * Import a module's default export, an adapter or a list of adapters.
+ */
+const importExports = async (specifier: string, worktree: string): Promise<unknown[]> => {
+  const module = (await import(withVersion(resolveSpecifier(specifier, worktree)))) as {
+    default?: unknown;
+  };
+
+  return Array.isArray(module.default) ? module.default : [module.default];
+};
+
+/**
+ * Import the external adapters listed in `websearch.adapters`, in order.
+ * A module that fails to load or exports something other than adapters
+ * is reported as a settings issue.
+ */
+const loadAdapters = async (
+  specifiers: string[],
+  worktree: string,
+  issues: string[],
+): Promise<SearchAdapter[]> => {
+  const adapters: SearchAdapter[] = [];
+  const seen = new Set<string>();
+
+  for (const [index, specifier] of specifiers.entries()) {
+    const path = `websearch.adapters[${index}]`;
+    try {
+      // oxlint-disable-next-line no-await-in-loop -- adapters are registered in config order
+      for (const value of await importExports(specifier, worktree)) {
+        const problem = findAdapterProblem(value, seen);
+        if (problem) {
+          issues.push(`\`${path}\` (${specifier}): ${problem}.`);
+          continue;
+        }
+
+        const adapter = value as SearchAdapter;
+        seen.add(adapter.id);
+        adapters.push(adapter);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      issues.push(`\`${path}\` could not be loaded from ${specifier}: ${reason}`);
+    }
+  }
+
+  return adapters;
+};
+
+export { listAdapterFiles, loadAdapters };
@@ -0,0 +1,153 @@
+import { SearchLimits, WebsearchSettings } from "./types.js";
+import { ModelPrice, UsageSummary, UsageTracker, summarizeUsage } from "./usage.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type LimitKey = keyof SearchLimits;
+
+/**
+ * What a budget check needs: who is searching, with which provider, and
+ * the usage and prices to check against.
+ */
+interface BudgetCheck {
+  prices: Map<string, ModelPrice>;
+  project: string;
+  providerID: string;
+  sessionID: string;
+  settings: WebsearchSettings;
+  usage: UsageTracker;
+}
+
+interface ExhaustedLimit {
+  key: LimitKey;
+  reason: string;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const COST_DECIMALS = 4;
+const NO_LIMITS = 0;
+
+// ── Errors ─────────────────────────────────────────────────────────────
+
+/**
+ * Raised before dispatch when a search limit is reached. The message is
+ * addressed to the agent and returned as the tool result.
+ */
+class SearchBudgetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchBudgetError";
+  }
+}
+
+// ── Checks ─────────────────────────────────────────────────────────────
+
+/**
+ * Layer a provider's limits over the global ones.
+ */
+const resolveLimits = (settings: WebsearchSettings, providerID: string): SearchLimits => ({
+  ...settings.limits,
+  ...settings.providers[providerID]?.limits,
+});
+
+const findExhaustedLimit = (
+  limits: SearchLimits,
+  session: UsageSummary,
+  project: UsageSummary,
+): ExhaustedLimit | null => {
+  const { maxCostPerSession, maxSearchesPerHour, maxSearchesPerSession, maxTokensPerSession } =
+    limits;
+
+  if (maxSearchesPerSession !== undefined && session.calls >= maxSearchesPerSession) {
+    return {
+      key: "maxSearchesPerSession",
+      reason: `this session has already run ${session.calls} web searches (limit: ${maxSearchesPerSession}).`,
+    };
+  }
+
+  if (maxSearchesPerHour !== undefined && project.callsLastHour >= maxSearchesPerHour) {
+    return {
+      key: "maxSearchesPerHour",
+      reason: `this project has run ${project.callsLastHour} web searches in the last hour (limit: ${maxSearchesPerHour}). Searches become available again as older ones leave the one-hour window.`,
+    };
+  }
+
+  if (maxTokensPerSession !== undefined && session.tokens >= maxTokensPerSession) {
+    return {
+      key: "maxTokensPerSession",
+      reason: `this session has used ${session.tokens} web search tokens (limit: ${maxTokensPerSession}).`,
+    };
+  }
+
+  if (maxCostPerSession !== undefined && session.cost >= maxCostPerSession) {
+    return {
+      key: "maxCostPerSession",
+      reason: `this session has spent an estimated $${session.cost.toFixed(COST_DECIMALS)} on web search (limit: $${maxCostPerSession}).`,
+    };
+  }
+
+  return null;
+};
+
+const formatBudgetMessage = (
+  exhausted: ExhaustedLimit,
+  settings: WebsearchSettings,
+  providerID: string,
+): string => {
+  const setting =
+    settings.providers[providerID]?.limits[exhausted.key] === undefined
+      ? `websearch.limits.${exhausted.key}`
+      : `websearch.providers.${providerID}.limits.${exhausted.key}`;
+
+  return `Web search budget exhausted: ${exhausted.reason}
+
+Do not call web-search again for now. Answer with the information you already have, and tell the user that the web search budget was reached. The user can raise it with \`${setting}\` in opencode.json.`;
+};
+
+/**
+ * Count searches still in flight as calls, so parallel tool calls cannot
+ * all pass a search limit before any of them is recorded.
+ */
+const addPending = (summary: UsageSummary, pending: number): UsageSummary => ({
+  ...summary,
+  calls: summary.calls + pending,
+  callsLastHour: summary.callsLastHour + pending,
+});
+
+// ── Public API ─────────────────────────────────────────────────────────
+
+/**
+ * Throw a `SearchBudgetError` when `providerID` may not search again;
+ * otherwise reserve a search slot and return the function that releases
+ * it once the search has been recorded. Usage is counted across all
+ * providers; a provider's limits only decide how much of it that
+ * provider tolerates.
+ */
+const reserveBudget = (check: BudgetCheck): (() => void) => {
+  const limits = resolveLimits(check.settings, check.providerID);
+  if (Object.keys(limits).length > NO_LIMITS) {
+    const now = Date.now();
+    const snapshot = check.usage.read(check.sessionID, check.project);
+    const pending = check.usage.countPending(check.sessionID, check.project);
+    const exhausted = findExhaustedLimit(
+      limits,
+      addPending(
+        summarizeUsage(snapshot.session, check.prices, check.settings, now),
+        pending.session,
+      ),
+      addPending(
+        summarizeUsage(snapshot.project, check.prices, check.settings, now),
+        pending.project,
+      ),
+    );
+
+    if (exhausted) {
+      throw new SearchBudgetError(formatBudgetMessage(exhausted, check.settings, check.providerID));
+    }
+  }
+
+  return check.usage.reserve(check.sessionID, check.project);
+};
+
+export { reserveBudget, SearchBudgetError };
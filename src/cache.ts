@@ -0,0 +1,167 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+
+import {
+  CacheSettings,
+  SearchInstructions,
+  SearchOptions,
+  SearchTuning,
+  StructuredSearchResponse,
+} from "./types.js";
+import { PathClient } from "./providers/shared/auth.js";
+import { writeFileAtomic } from "./helpers.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * Identifies a cacheable search: the same query sent to the same
+ * provider and model with the same search options, rendered prompts and
+ * tuning is expected to produce an equivalent response.
+ */
+interface CacheKey {
+  instructions: SearchInstructions;
+  model: string;
+  options: SearchOptions;
+  providerID: string;
+  query: string;
+  tuning: SearchTuning;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  response: StructuredSearchResponse;
+}
+
+type CacheStore = Record<string, CacheEntry>;
+
+interface SearchCache {
+  read: (key: CacheKey) => StructuredSearchResponse | null;
+  write: (key: CacheKey, response: StructuredSearchResponse) => void;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const CACHE_FILE_NAME = "websearch-cache.json";
+const MS_PER_SECOND = 1000;
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+const normalizeQuery = (query: string): string =>
+  query.trim().replaceAll(/\s+/g, " ").toLowerCase();
+
+const hashKey = (key: CacheKey): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        key.providerID,
+        key.model,
+        normalizeQuery(key.query),
+        key.options,
+        key.instructions,
+        key.tuning,
+      ]),
+    )
+    .digest("hex");
+
+const parseStore = (content: string): CacheStore => {
+  try {
+    const parsed = JSON.parse(content) as unknown;
+    if (parsed && typeof parsed === "object") {
+      return parsed as CacheStore;
+    }
+    return {};
+  } catch {
+    return {};
+  }
+};
+
+const readStore = (filePath: string): CacheStore => {
+  try {
+    return existsSync(filePath) ? parseStore(readFileSync(filePath, "utf8")) : {};
+  } catch {
+    // An unreadable cache file is treated as an empty cache.
+    return {};
+  }
+};
+
+const writeStore = (filePath: string, store: CacheStore): void => {
+  try {
+    writeFileAtomic(filePath, JSON.stringify(store));
+  } catch {
+    // A cache that cannot be persisted still works for the current process.
+  }
+};
+
+const pruneExpired = (store: CacheStore, now: number): void => {
+  for (const [hash, entry] of Object.entries(store)) {
+    if (entry.expiresAt <= now) {
+      delete store[hash];
+    }
+  }
+};
+
+const resolveCachePath = async (client: PathClient, directory: string): Promise<string | null> => {
+  const response = await client.path.get({ query: { directory } });
+  const statePath = response.data?.state;
+
+  return statePath ? join(statePath, CACHE_FILE_NAME) : null;
+};
+
+// ── Public API ─────────────────────────────────────────────────────────
+
+/**
+ * Create a search cache backed by `filePath`, or held in memory only when
+ * `filePath` is null. The store is loaded lazily on first access and
+ * written back on every successful search, merged with the file as it is
+ * then so entries other OpenCode processes added are kept.
+ */
+const createSearchCache = (filePath: string | null, settings: CacheSettings): SearchCache => {
+  let store: CacheStore | null = null;
+  const load = (): CacheStore => (store ??= filePath ? readStore(filePath) : {});
+
+  return {
+    read: (key) => {
+      if (!settings.enabled) {
+        return null;
+      }
+
+      const entry = load()[hashKey(key)];
+      if (!entry || entry.expiresAt <= Date.now()) {
+        return null;
+      }
+
+      return entry.response;
+    },
+
+    write: (key, response) => {
+      if (!settings.enabled) {
+        return;
+      }
+
+      const now = Date.now();
+      const current = filePath ? { ...load(), ...readStore(filePath) } : load();
+      store = current;
+      pruneExpired(current, now);
+      current[hashKey(key)] = {
+        expiresAt: now + settings.ttlSeconds * MS_PER_SECOND,
+        response,
+      };
+
+      if (filePath) {
+        writeStore(filePath, current);
+      }
+    },
+  };
+};
+
+/**
+ * Open the persistent search cache stored under OpenCode's state directory.
+ */
+const openSearchCache = async (
+  client: PathClient,
+  directory: string,
+  settings: CacheSettings,
+): Promise<SearchCache> => createSearchCache(await resolveCachePath(client, directory), settings);
+
+export { CacheKey, openSearchCache, SearchCache };
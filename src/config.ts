@@ -1,5 +1,33 @@
-import { ProviderCredentials, ProviderType, ScannableProviderType } from "./types.js";
-import { detectProviderType } from "./providers/registry.js";
+import {
+  AdapterType,
+  BackendProviderType,
+  CacheSettings,
+  DomainFilter,
+  FailoverSettings,
+  OutputFormat,
+  ProviderCredentials,
+  ProviderResolution,
+  ProviderSettings,
+  ScannableProviderType,
+  SearchAdapter,
+  SearchLimits,
+  SearchLocation,
+  SearchRecency,
+  SearchSource,
+  SearchTuning,
+  TimeoutSettings,
+  WebsearchSettings,
+  WebsearchUse,
+} from "./types.js";
+import { detectBackendType, detectProviderType } from "./providers/registry.js";
+import {
+  EMPTY_LENGTH,
+  MAX_RESPONSE_TOKENS,
+  SEARCH_PROMPT_TEMPLATE,
+  SEARCH_SYSTEM_PROMPT,
+  normalizeDomains,
+} from "./providers/shared/search.js";
+import { findUnknownPlaceholders, hasQueryPlaceholder } from "./prompts.js";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -14,10 +42,22 @@ interface ProviderModel {
   api: {
     npm: string;
   };
+  cost?: {
+    input: number;
+    output: number;
+  };
   id: string;
   options: Record<string, unknown>;
 }
 
+/**
+ * The parsed `websearch` block, with every problem found in it.
+ */
+interface SettingsResult {
+  issues: string[];
+  settings: WebsearchSettings;
+}
+
 /**
  * A scan result that may not yet have credentials.
  *
@@ -35,7 +75,7 @@ interface ScannedResolution {
   fallbackModel?: string;
   lockedModel?: string;
   providerID: string;
-  type: ProviderType;
+  type: AdapterType;
 }
 
 // ── Constants ──────────────────────────────────────────────────────────
@@ -43,6 +83,113 @@ interface ScannedResolution {
 const WEBSEARCH_ALWAYS = "always";
 const WEBSEARCH_AUTO = "auto";
 
+const DEFAULT_CACHE_TTL_SECONDS = 3600;
+const MIN_CACHE_TTL_SECONDS = 0;
+
+const DEFAULT_FAILOVER_MAX_ATTEMPTS = 3;
+const MIN_FAILOVER_ATTEMPTS = 1;
+
+const DEFAULT_TIMEOUTS: TimeoutSettings = {
+  connectMs: 120_000,
+  idleMs: 60_000,
+  totalMs: 180_000,
+};
+const MIN_TIMEOUT_SECONDS = 0;
+const MIN_SEARCH_COST = 0;
+const MIN_LIMIT = 0;
+
+const DEFAULT_TUNING: SearchTuning = {
+  categories: [],
+  engines: [],
+  maxResults: 10,
+  maxSearchUses: 8,
+  maxTokens: MAX_RESPONSE_TOKENS,
+  maxTurns: 8,
+  promptTemplate: SEARCH_PROMPT_TEMPLATE,
+  sources: ["web", "x"],
+  systemPrompt: SEARCH_SYSTEM_PROMPT,
+};
+const MIN_TUNING_COUNT = 1;
+const SEARCH_SOURCES = new Set<string>(["web", "x"]);
+const SEARCH_RECENCIES = new Set<string>(["day", "hour", "month", "week", "year"]);
+
+const DEFAULT_OUTPUT_FORMAT: OutputFormat = "json";
+const OUTPUT_FORMATS = new Set<string>(["both", "json", "markdown"]);
+const MS_PER_SECOND = 1000;
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+// Options accepted in each part of the `websearch` block.
+const CACHE_KEYS = ["enabled", "ttl"] as const;
+const FAILOVER_KEYS = ["enabled", "maxAttempts"] as const;
+const LIMIT_KEYS = [
+  "maxCostPerSession",
+  "maxSearchesPerHour",
+  "maxSearchesPerSession",
+  "maxTokensPerSession",
+] as const;
+const LOCATION_KEYS = ["city", "country", "region", "timezone"] as const;
+const TIMEOUT_KEYS = ["connect", "idle", "total"] as const;
+const TUNING_KEYS = [
+  "categories",
+  "engines",
+  "maxResults",
+  "maxSearchUses",
+  "maxTokens",
+  "maxTurns",
+  "promptTemplate",
+  "searchRecency",
+  "sources",
+  "systemPrompt",
+  "systemPromptFile",
+] as const;
+const PROVIDER_KEYS = [
+  "apiKey",
+  "baseURL",
+  "limits",
+  "models",
+  "searchCost",
+  "summarize",
+  "timeouts",
+  "type",
+  "use",
+  ...TUNING_KEYS,
+] as const;
+const WEBSEARCH_USES = new Set<string>([WEBSEARCH_ALWAYS, WEBSEARCH_AUTO]);
+const DEFAULT_BACKEND_USE: WebsearchUse = "auto";
+// Adapters a provider can be forced onto with `websearch.providers.<id>.type`.
+const PROVIDER_TYPES = new Set<string>([
+  "anthropic",
+  "azure",
+  "copilot",
+  "gemini",
+  "moonshot",
+  "openai",
+  "openrouter",
+  "perplexity",
+  "xai",
+] satisfies ScannableProviderType[]);
+// The option each search backend cannot run without.
+const BACKEND_REQUIRED_OPTIONS: Record<BackendProviderType, "apiKey" | "baseURL"> = {
+  brave: "apiKey",
+  exa: "apiKey",
+  searxng: "baseURL",
+  tavily: "apiKey",
+};
+const WEBSEARCH_KEYS = [
+  "adapters",
+  "allowedDomains",
+  "blockedDomains",
+  "cache",
+  "failover",
+  "language",
+  "limits",
+  "location",
+  "output",
+  "providers",
+  "timeouts",
+  ...TUNING_KEYS,
+] as const;
+
 // ── Helpers ────────────────────────────────────────────────────────────
 
 const getWebsearchOption = (model: ProviderModel): string | null => {
@@ -59,18 +206,39 @@ const stripV1Suffix = (url: string): string => url.replace(/\/v1\/?$/, "");
 const extractStringOption = (options: Record<string, unknown>, key: string): string | undefined =>
   typeof options[key] === "string" ? (options[key] as string) : undefined;
 
-const normalizeBaseURL = (type: ScannableProviderType, baseURL: string): string =>
+const normalizeBaseURL = (type: AdapterType, baseURL: string): string =>
   type === "anthropic" ? stripV1Suffix(baseURL) : baseURL;
 
-const resolveBaseURL = (
-  provider: ProviderData,
-  type: ScannableProviderType,
-): string | undefined => {
+const resolveBaseURL = (provider: ProviderData, type: AdapterType): string | undefined => {
   const configured = extractStringOption(provider.options, "baseURL");
 
   return configured ? normalizeBaseURL(type, configured) : undefined;
 };
 
+/**
+ * Azure OpenAI addresses a resource (unless a `baseURL` is given) with a
+ * pinned API version, both taken from the `@ai-sdk/azure` options. Like
+ * `@ai-sdk/azure`, the resource falls back to `AZURE_RESOURCE_NAME`.
+ * `entraAuth: true` marks the API key as a Microsoft Entra ID token.
+ */
+const resolveAzureOptions = (
+  provider: ProviderData,
+  type: AdapterType,
+): { apiVersion?: string; entraAuth?: boolean; resourceName?: string } => {
+  if (type !== "azure") {
+    return {};
+  }
+
+  return compact({
+    apiVersion: extractStringOption(provider.options, "apiVersion"),
+    entraAuth: provider.options.entraAuth === true || undefined,
+    resourceName:
+      extractStringOption(provider.options, "resourceName") ||
+      process.env.AZURE_RESOURCE_NAME ||
+      undefined,
+  });
+};
+
 const collectWebsearchModels = (
   provider: ProviderData,
 ): { fallbackModel?: string; lockedModel?: string } => {
@@ -90,22 +258,80 @@ const collectWebsearchModels = (
   return { fallbackModel, lockedModel };
 };
 
-const scanProvider = (provider: ProviderData): ScannedResolution | null => {
-  const type = detectProviderType(provider);
+/**
+ * Call one of an external adapter's hooks. A hook that throws is reported
+ * as a `websearch.adapters` settings issue and yields `fallback`, so one
+ * broken adapter cannot take down the providers it does not handle.
+ */
+const callAdapterHook = <Value>(
+  adapter: SearchAdapter,
+  hook: keyof SearchAdapter,
+  call: () => Value,
+  fallback: Value,
+  issues: string[],
+): Value => {
+  try {
+    return call();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    issues.push(`\`websearch.adapters\`: adapter "${adapter.id}" failed in \`${hook}\`: ${reason}`);
+    return fallback;
+  }
+};
+
+/**
+ * Credentials from the provider's `key` (or `options.apiKey`) and
+ * options, unless an external adapter resolves them itself.
+ */
+const resolveCredentials = (
+  provider: ProviderData,
+  type: AdapterType,
+  external: SearchAdapter | undefined,
+  issues: string[],
+): ProviderCredentials | null => {
+  if (external?.resolveCredentials) {
+    const { resolveCredentials: resolve } = external;
+
+    return callAdapterHook(external, "resolveCredentials", () => resolve(provider), null, issues);
+  }
+
+  const apiKey = provider.key ?? extractStringOption(provider.options, "apiKey");
+
+  return apiKey
+    ? { apiKey, baseURL: resolveBaseURL(provider, type), ...resolveAzureOptions(provider, type) }
+    : null;
+};
+
+/**
+ * A `type` configured under `websearch.providers.<id>` wins over
+ * detection, for providers whose SDK package is ambiguous. External
+ * adapters are asked before the built-in detection, so they can take over
+ * providers a built-in adapter would also handle.
+ */
+const scanProvider = (
+  provider: ProviderData,
+  override: ScannableProviderType | undefined,
+  adapters: SearchAdapter[],
+  issues: string[],
+): ScannedResolution | null => {
+  const external = override
+    ? undefined
+    : adapters.find((adapter) =>
+        callAdapterHook(adapter, "detect", () => adapter.detect(provider), false, issues),
+      );
+  const type = override ?? external?.id ?? detectProviderType(provider);
   if (!type) {
     return null;
   }
 
-  const apiKey = provider.key ?? extractStringOption(provider.options, "apiKey");
+  const credentials = resolveCredentials(provider, type, external, issues);
   const { fallbackModel, lockedModel } = collectWebsearchModels(provider);
 
   // Skip providers that contribute nothing: no credentials and no flags.
-  if (!apiKey && !lockedModel && !fallbackModel) {
+  if (!credentials && !lockedModel && !fallbackModel) {
     return null;
   }
 
-  const credentials = apiKey ? { apiKey, baseURL: resolveBaseURL(provider, type) } : null;
-
   return {
     credentials,
     fallbackModel,
@@ -125,12 +351,20 @@ const scanProvider = (provider: ProviderData): ScannedResolution | null => {
  * `websearch` flags. Some entries may have null credentials at this
  * stage; the OAuth attachment phase fills them in (and any still-null
  * entries are filtered out before being returned to callers).
+ * `settings` supply the `type` overrides from `websearch.providers`;
+ * `adapters` are the external adapters loaded from `websearch.adapters`.
+ * Adapters that throw while scanning are reported in `issues`.
  */
-const scanProviders = (providers: ProviderData[]): ScannedResolution[] => {
+const scanProviders = (
+  providers: ProviderData[],
+  settings: Record<string, ProviderSettings> = {},
+  adapters: SearchAdapter[] = [],
+  issues: string[] = [],
+): ScannedResolution[] => {
   const result: ScannedResolution[] = [];
 
   for (const provider of providers) {
-    const resolution = scanProvider(provider);
+    const resolution = scanProvider(provider, settings[provider.id]?.type, adapters, issues);
     if (resolution) {
       result.push(resolution);
     }
@@ -139,17 +373,581 @@ const scanProviders = (providers: ProviderData[]): ScannedResolution[] => {
   return result;
 };
 
+/**
+ * Turn the search backends configured under `websearch.providers` into
+ * resolutions, appended after OpenCode's providers. A backend's model is
+ * its type; `use` decides whether it is locked in or a fallback.
+ */
+const scanBackends = (settings: WebsearchSettings): ProviderResolution[] => {
+  const result: ProviderResolution[] = [];
+
+  for (const [providerID, provider] of Object.entries(settings.providers)) {
+    const type = detectBackendType(providerID);
+    if (!type || !provider[BACKEND_REQUIRED_OPTIONS[type]]) {
+      continue;
+    }
+
+    const use = provider.use ?? DEFAULT_BACKEND_USE;
+    result.push({
+      credentials: { apiKey: provider.apiKey ?? "", baseURL: provider.baseURL },
+      providerID,
+      type,
+      ...(use === WEBSEARCH_ALWAYS ? { lockedModel: type } : { fallbackModel: type }),
+    });
+  }
+
+  return result;
+};
+
+// ── Settings validation ────────────────────────────────────────────────
+
+/**
+ * Problems found in the `websearch` block, one actionable message each.
+ * Readers record an issue and fall back to the default for that value.
+ */
+type SettingsIssues = string[];
+
+interface NumberRule {
+  integer?: boolean;
+  min: number;
+}
+
+const describeValue = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Read an object-valued option, flagging keys outside `known` (usually
+ * typos) so they are not silently ignored.
+ */
+const readBlock = (
+  value: unknown,
+  path: string,
+  known: readonly string[],
+  issues: SettingsIssues,
+): Record<string, unknown> => {
+  if (value === undefined) {
+    return {};
+  }
+
+  if (!isRecord(value)) {
+    issues.push(`\`${path}\` must be an object (got ${describeValue(value)}).`);
+    return {};
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      issues.push(
+        `\`${path}.${key}\` is not a recognized option. Expected one of: ${known.toSorted().join(", ")}.`,
+      );
+    }
+  }
+
+  return value;
+};
+
+/**
+ * Read an object whose keys are IDs (providers, models) rather than
+ * option names.
+ */
+const readMap = (value: unknown, path: string, issues: SettingsIssues): Record<string, unknown> =>
+  readBlock(value, path, Object.keys(isRecord(value) ? value : {}), issues);
+
+const readNumber = (
+  value: unknown,
+  path: string,
+  rule: NumberRule,
+  issues: SettingsIssues,
+): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const valid =
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= rule.min &&
+    (!rule.integer || Number.isInteger(value));
+  if (!valid) {
+    const kind = rule.integer ? "a whole number" : "a number";
+    issues.push(
+      `\`${path}\` must be ${kind} of at least ${rule.min} (got ${describeValue(value)}).`,
+    );
+    return undefined;
+  }
+
+  return value;
+};
+
+const readBoolean = (value: unknown, path: string, issues: SettingsIssues): boolean | undefined => {
+  if (value === undefined || typeof value === "boolean") {
+    return value;
+  }
+
+  issues.push(`\`${path}\` must be true or false (got ${describeValue(value)}).`);
+  return undefined;
+};
+
+const readString = (value: unknown, path: string, issues: SettingsIssues): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "string") {
+    issues.push(`\`${path}\` must be a string (got ${describeValue(value)}).`);
+    return undefined;
+  }
+
+  return parseOptionalString(value);
+};
+
+/**
+ * Read a prompt template, rejecting placeholders other than `{{query}}`,
+ * `{{date}}` and `{{project}}`.
+ */
+const readTemplate = (value: unknown, path: string, issues: SettingsIssues): string | undefined => {
+  const template = readString(value, path, issues);
+  if (template === undefined) {
+    return undefined;
+  }
+
+  const unknown = findUnknownPlaceholders(template);
+  if (unknown.length > EMPTY_LENGTH) {
+    issues.push(
+      `\`${path}\` uses unknown placeholders: ${unknown.map((name) => `{{${name}}}`).join(", ")}. Expected {{query}}, {{date}} or {{project}}.`,
+    );
+  }
+
+  return template;
+};
+
+const readStringList = (value: unknown, path: string, issues: SettingsIssues): string[] => {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    issues.push(`\`${path}\` must be a list of strings (got ${describeValue(value)}).`);
+    return [];
+  }
+
+  return value;
+};
+
+/**
+ * Like `readStringList`, but `undefined` when unset so it can be layered.
+ */
+const readOptionalStringList = (
+  value: unknown,
+  path: string,
+  issues: SettingsIssues,
+): string[] | undefined => (value === undefined ? undefined : readStringList(value, path, issues));
+
+/**
+ * Drop unset fields so partial settings can be layered with spreads.
+ */
+const compact = <Value extends object>(value: Value): Value =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Value;
+
+// ── Settings ───────────────────────────────────────────────────────────
+
+const parseCacheSettings = (raw: unknown, issues: SettingsIssues): CacheSettings => {
+  const block = readBlock(raw, "websearch.cache", CACHE_KEYS, issues);
+
+  return {
+    enabled: readBoolean(block.enabled, "websearch.cache.enabled", issues) ?? true,
+    ttlSeconds:
+      readNumber(block.ttl, "websearch.cache.ttl", { min: MIN_CACHE_TTL_SECONDS }, issues) ??
+      DEFAULT_CACHE_TTL_SECONDS,
+  };
+};
+
+const parseFailoverSettings = (raw: unknown, issues: SettingsIssues): FailoverSettings => {
+  const block = readBlock(raw, "websearch.failover", FAILOVER_KEYS, issues);
+  const maxAttempts = readNumber(
+    block.maxAttempts,
+    "websearch.failover.maxAttempts",
+    { integer: true, min: MIN_FAILOVER_ATTEMPTS },
+    issues,
+  );
+
+  return {
+    enabled: readBoolean(block.enabled, "websearch.failover.enabled", issues) ?? true,
+    maxAttempts: maxAttempts ?? DEFAULT_FAILOVER_MAX_ATTEMPTS,
+  };
+};
+
+const readTimeoutMs = (
+  value: unknown,
+  path: string,
+  issues: SettingsIssues,
+): number | undefined => {
+  const seconds = readNumber(value, path, { min: MIN_TIMEOUT_SECONDS }, issues);
+
+  return seconds === undefined ? undefined : seconds * MS_PER_SECOND;
+};
+
+/**
+ * Parse `connect` / `idle` / `total` timeouts given in seconds, keeping
+ * only the valid ones so they can be layered over the defaults.
+ */
+const parseTimeoutOverrides = (
+  raw: unknown,
+  path: string,
+  issues: SettingsIssues,
+): Partial<TimeoutSettings> => {
+  const block = readBlock(raw, path, TIMEOUT_KEYS, issues);
+
+  return compact({
+    connectMs: readTimeoutMs(block.connect, `${path}.connect`, issues),
+    idleMs: readTimeoutMs(block.idle, `${path}.idle`, issues),
+    totalMs: readTimeoutMs(block.total, `${path}.total`, issues),
+  });
+};
+
+/**
+ * Parse search limits, keeping only the valid ones so provider limits
+ * can be layered over the global ones.
+ */
+const parseSearchLimits = (raw: unknown, path: string, issues: SettingsIssues): SearchLimits => {
+  const block = readBlock(raw, path, LIMIT_KEYS, issues);
+  const count = { integer: true, min: MIN_LIMIT };
+
+  return compact({
+    maxCostPerSession: readNumber(
+      block.maxCostPerSession,
+      `${path}.maxCostPerSession`,
+      { min: MIN_LIMIT },
+      issues,
+    ),
+    maxSearchesPerHour: readNumber(
+      block.maxSearchesPerHour,
+      `${path}.maxSearchesPerHour`,
+      count,
+      issues,
+    ),
+    maxSearchesPerSession: readNumber(
+      block.maxSearchesPerSession,
+      `${path}.maxSearchesPerSession`,
+      count,
+      issues,
+    ),
+    maxTokensPerSession: readNumber(
+      block.maxTokensPerSession,
+      `${path}.maxTokensPerSession`,
+      count,
+      issues,
+    ),
+  });
+};
+
+/**
+ * Read a list of search sources, dropping duplicates.
+ */
+const readSources = (
+  value: unknown,
+  path: string,
+  issues: SettingsIssues,
+): SearchSource[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (
+    !Array.isArray(value) ||
+    value.length === EMPTY_LENGTH ||
+    !value.every((source) => typeof source === "string" && SEARCH_SOURCES.has(source))
+  ) {
+    issues.push(
+      `\`${path}\` must list one or more of: ${[...SEARCH_SOURCES].join(", ")} (got ${describeValue(value)}).`,
+    );
+    return undefined;
+  }
+
+  return [...new Set(value as SearchSource[])];
+};
+
+const readProviderType = (
+  value: unknown,
+  path: string,
+  issues: SettingsIssues,
+): ScannableProviderType | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value === "string" && PROVIDER_TYPES.has(value)) {
+    return value as ScannableProviderType;
+  }
+
+  issues.push(
+    `\`${path}\` must be one of: ${[...PROVIDER_TYPES].join(", ")} (got ${describeValue(value)}).`,
+  );
+  return undefined;
+};
+
+const readRecency = (
+  value: unknown,
+  path: string,
+  issues: SettingsIssues,
+): SearchRecency | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value === "string" && SEARCH_RECENCIES.has(value)) {
+    return value as SearchRecency;
+  }
+
+  issues.push(
+    `\`${path}\` must be one of: ${[...SEARCH_RECENCIES].join(", ")} (got ${describeValue(value)}).`,
+  );
+  return undefined;
+};
+
+const readPromptTemplate = (
+  value: unknown,
+  path: string,
+  issues: SettingsIssues,
+): string | undefined => {
+  const template = readTemplate(value, path, issues);
+  if (template !== undefined && !hasQueryPlaceholder(template)) {
+    issues.push(`\`${path}\` must contain the {{query}} placeholder.`);
+  }
+
+  return template;
+};
+
+/**
+ * Read the search tuning options set on `block` (the `websearch` block,
+ * a provider or a model), keeping only the valid ones.
+ */
+const parseTuningOverrides = (
+  block: Record<string, unknown>,
+  path: string,
+  issues: SettingsIssues,
+): Partial<SearchTuning> => {
+  const count = { integer: true, min: MIN_TUNING_COUNT };
+
+  return compact({
+    categories: readOptionalStringList(block.categories, `${path}.categories`, issues),
+    engines: readOptionalStringList(block.engines, `${path}.engines`, issues),
+    maxResults: readNumber(block.maxResults, `${path}.maxResults`, count, issues),
+    maxSearchUses: readNumber(block.maxSearchUses, `${path}.maxSearchUses`, count, issues),
+    maxTokens: readNumber(block.maxTokens, `${path}.maxTokens`, count, issues),
+    maxTurns: readNumber(block.maxTurns, `${path}.maxTurns`, count, issues),
+    promptTemplate: readPromptTemplate(block.promptTemplate, `${path}.promptTemplate`, issues),
+    searchRecency: readRecency(block.searchRecency, `${path}.searchRecency`, issues),
+    sources: readSources(block.sources, `${path}.sources`, issues),
+    systemPrompt: readTemplate(block.systemPrompt, `${path}.systemPrompt`, issues),
+    systemPromptFile: readString(block.systemPromptFile, `${path}.systemPromptFile`, issues),
+  });
+};
+
+const parseModelSettings = (
+  raw: unknown,
+  path: string,
+  issues: SettingsIssues,
+): Record<string, Partial<SearchTuning>> => {
+  const models: Record<string, Partial<SearchTuning>> = {};
+
+  for (const [modelID, value] of Object.entries(readMap(raw, path, issues))) {
+    const modelPath = `${path}.${modelID}`;
+    models[modelID] = parseTuningOverrides(
+      readBlock(value, modelPath, TUNING_KEYS, issues),
+      modelPath,
+      issues,
+    );
+  }
+
+  return models;
+};
+
+const readUse = (
+  value: unknown,
+  path: string,
+  issues: SettingsIssues,
+): WebsearchUse | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value === "string" && WEBSEARCH_USES.has(value)) {
+    return value as WebsearchUse;
+  }
+
+  issues.push(
+    `\`${path}\` must be one of: ${[...WEBSEARCH_USES].join(", ")} (got ${describeValue(value)}).`,
+  );
+  return undefined;
+};
+
+/**
+ * Read the connection options of a search backend. A self-hosted backend
+ * cannot be reached without its `baseURL`, a commercial one without its
+ * `apiKey`.
+ */
+const parseBackendSettings = (
+  block: Record<string, unknown>,
+  providerID: string,
+  path: string,
+  issues: SettingsIssues,
+): Pick<ProviderSettings, "apiKey" | "baseURL" | "summarize" | "use"> => {
+  const backend = {
+    apiKey: readString(block.apiKey, `${path}.apiKey`, issues),
+    baseURL: readString(block.baseURL, `${path}.baseURL`, issues),
+    summarize: readBoolean(block.summarize, `${path}.summarize`, issues),
+    use: readUse(block.use, `${path}.use`, issues),
+  };
+
+  const type = detectBackendType(providerID);
+  const required = type ? BACKEND_REQUIRED_OPTIONS[type] : undefined;
+  if (required && !backend[required]) {
+    issues.push(`\`${path}.${required}\` is required to use ${providerID} for web search.`);
+  }
+
+  return backend;
+};
+
+const parseProviderSettings = (
+  raw: unknown,
+  issues: SettingsIssues,
+): Record<string, ProviderSettings> => {
+  const providers: Record<string, ProviderSettings> = {};
+
+  for (const [providerID, value] of Object.entries(readMap(raw, "websearch.providers", issues))) {
+    const path = `websearch.providers.${providerID}`;
+    const block = readBlock(value, path, PROVIDER_KEYS, issues);
+    const searchCost = readNumber(
+      block.searchCost,
+      `${path}.searchCost`,
+      { min: MIN_SEARCH_COST },
+      issues,
+    );
+
+    providers[providerID] = compact({
+      ...parseBackendSettings(block, providerID, path, issues),
+      limits: parseSearchLimits(block.limits, `${path}.limits`, issues),
+      models: parseModelSettings(block.models, `${path}.models`, issues),
+      searchCost,
+      timeouts: parseTimeoutOverrides(block.timeouts, `${path}.timeouts`, issues),
+      tuning: parseTuningOverrides(block, path, issues),
+      type: readProviderType(block.type, `${path}.type`, issues),
+    });
+  }
+
+  return providers;
+};
+
+const parseOutputFormat = (value: unknown, issues: SettingsIssues): OutputFormat => {
+  if (value === undefined) {
+    return DEFAULT_OUTPUT_FORMAT;
+  }
+
+  if (typeof value === "string" && OUTPUT_FORMATS.has(value)) {
+    return value as OutputFormat;
+  }
+
+  issues.push(
+    `\`websearch.output\` must be one of: ${[...OUTPUT_FORMATS].join(", ")} (got ${describeValue(value)}).`,
+  );
+  return DEFAULT_OUTPUT_FORMAT;
+};
+
+const parseDomainFilter = (raw: Record<string, unknown>, issues: SettingsIssues): DomainFilter => ({
+  allowed: normalizeDomains(readStringList(raw.allowedDomains, "websearch.allowedDomains", issues)),
+  blocked: normalizeDomains(readStringList(raw.blockedDomains, "websearch.blockedDomains", issues)),
+});
+
+const parseOptionalString = (value: unknown): string | undefined => {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+
+  return trimmed.length > EMPTY_LENGTH ? trimmed : undefined;
+};
+
+/**
+ * Normalize a location: drop blank fields and upper-case the country
+ * code. Returns `undefined` when no field is set.
+ */
+const normalizeLocation = (raw: Record<string, unknown>): SearchLocation | undefined => {
+  const country = parseOptionalString(raw.country)?.toUpperCase();
+  const location: SearchLocation = {
+    city: parseOptionalString(raw.city),
+    country,
+    region: parseOptionalString(raw.region),
+    timezone: parseOptionalString(raw.timezone),
+  };
+
+  const fields = Object.entries(location).filter(([, value]) => value !== undefined);
+
+  return fields.length > EMPTY_LENGTH ? (Object.fromEntries(fields) as SearchLocation) : undefined;
+};
+
+const parseLocation = (raw: unknown, issues: SettingsIssues): SearchLocation | undefined => {
+  const block = readBlock(raw, "websearch.location", LOCATION_KEYS, issues);
+  for (const key of LOCATION_KEYS) {
+    readString(block[key], `websearch.location.${key}`, issues);
+  }
+
+  const location = normalizeLocation(block);
+  if (location?.country && !COUNTRY_CODE_PATTERN.test(location.country)) {
+    issues.push(
+      `\`websearch.location.country\` must be a two-letter ISO country code such as "SE" (got ${describeValue(block.country)}).`,
+    );
+    return normalizeLocation({ ...block, country: undefined });
+  }
+
+  return location;
+};
+
+/**
+ * Parse and validate the top-level `websearch` config block.
+ *
+ * Invalid values are reported in `issues` and fall back to their
+ * defaults, so an absent block yields the default settings and no
+ * issues.
+ */
+const parseWebsearchSettings = (raw: unknown): SettingsResult => {
+  const issues: SettingsIssues = [];
+  const block = readBlock(raw, "websearch", WEBSEARCH_KEYS, issues);
+
+  const settings: WebsearchSettings = {
+    adapters: readStringList(block.adapters, "websearch.adapters", issues),
+    cache: parseCacheSettings(block.cache, issues),
+    domains: parseDomainFilter(block, issues),
+    failover: parseFailoverSettings(block.failover, issues),
+    language: readString(block.language, "websearch.language", issues),
+    limits: parseSearchLimits(block.limits, "websearch.limits", issues),
+    location: parseLocation(block.location, issues),
+    output: parseOutputFormat(block.output, issues),
+    providers: parseProviderSettings(block.providers, issues),
+    timeouts: {
+      ...DEFAULT_TIMEOUTS,
+      ...parseTimeoutOverrides(block.timeouts, "websearch.timeouts", issues),
+    },
+    tuning: { ...DEFAULT_TUNING, ...parseTuningOverrides(block, "websearch", issues) },
+  };
+
+  return { issues, settings };
+};
+
 // ── Error formatting ───────────────────────────────────────────────────
 
-const GENERAL_MODEL_HINT = "claude-sonnet-4-6, claude-opus-4-6, gpt-5.4, gpt-5.4-mini, kimi-k2.6";
+const GENERAL_MODEL_HINT =
+  "claude-sonnet-4-6, claude-opus-4-6, gpt-5.4, gpt-5.4-mini, gemini-2.5-flash, kimi-k2.6, grok-4, sonar-pro";
 const COPILOT_MODEL_HINT = "gpt-5.3-codex, gpt-5.2-codex, gpt-5.2, gpt-5.1, gpt-5.4-mini";
 
 const formatNoProviderError = (): string =>
-  `Error: web-search requires an Anthropic, OpenAI (API key or ChatGPT OAuth), Moonshot, or GitHub Copilot provider.
+  `Error: web-search requires an Anthropic, OpenAI (API key or ChatGPT OAuth), Azure OpenAI, Google Gemini, Moonshot, OpenRouter, Perplexity, xAI, or GitHub Copilot provider.
 
 No supported provider credentials (API key or OAuth) were found.
 
-To fix this, add an Anthropic, OpenAI, or Moonshot provider to your opencode.json:
+To fix this, add an Anthropic, OpenAI, Google, Moonshot, OpenRouter, Perplexity, or xAI provider to your opencode.json:
 
 {
   "provider": {
@@ -175,6 +973,18 @@ Or:
 
 Or:
 
+{
+  "provider": {
+    "google": {
+      "options": {
+        "apiKey": "{env:GOOGLE_GENERATIVE_AI_API_KEY}"
+      }
+    }
+  }
+}
+
+Or:
+
 {
   "provider": {
     "moonshotai": {
@@ -185,15 +995,61 @@ Or:
   }
 }
 
+Or:
+
+{
+  "provider": {
+    "openrouter": {
+      "options": {
+        "apiKey": "{env:OPENROUTER_API_KEY}"
+      }
+    }
+  }
+}
+
+Or:
+
+{
+  "provider": {
+    "perplexity": {
+      "options": {
+        "apiKey": "{env:PERPLEXITY_API_KEY}"
+      }
+    }
+  }
+}
+
+Or:
+
+{
+  "provider": {
+    "xai": {
+      "options": {
+        "apiKey": "{env:XAI_API_KEY}"
+      }
+    }
+  }
+}
+
+Steps:
+1. Open your opencode.json (project root, .opencode/, or ~/.config/opencode/)
+2. Ensure you have an Anthropic/OpenAI/Google/Moonshot/OpenRouter/Perplexity/xAI provider configured with a valid API key, or active OpenAI ChatGPT OAuth/Copilot auth
+3. Save the file; the change is picked up on the next search`;
+
+const formatInvalidSettingsError = (issues: string[]): string =>
+  `Error: the "websearch" block in your opencode.json is invalid.
+
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
 Steps:
 1. Open your opencode.json (project root, .opencode/, or ~/.config/opencode/)
-2. Ensure you have an Anthropic/OpenAI/Moonshot provider configured with a valid API key, or active OpenAI ChatGPT OAuth/Copilot auth
-3. Restart OpenCode to pick up the configuration change`;
+2. Fix or remove the options listed above
+3. Save the file; the change is picked up on the next search`;
 
 const formatUnsupportedProviderError = (activeModelID: string): string =>
   `Error: your current model (${activeModelID}) does not support web search.
 
-Web search requires an Anthropic, OpenAI, Moonshot, or GitHub Copilot web-search-capable model.
+Web search requires an Anthropic, OpenAI, Azure OpenAI, Google Gemini, Moonshot, OpenRouter, Perplexity, xAI, or GitHub Copilot web-search-capable model.
 
 Known Copilot models that work with web search today include: ${COPILOT_MODEL_HINT}.
 
@@ -218,9 +1074,16 @@ You can either:
 Or set \`"websearch": "always"\` to always use that model for web search regardless of your active model.`;
 
 export {
+  formatInvalidSettingsError,
   formatNoProviderError,
   formatUnsupportedProviderError,
+  normalizeLocation,
+  parseOptionalString,
+  parseWebsearchSettings,
   ProviderData,
+  ProviderModel,
   ScannedResolution,
+  scanBackends,
   scanProviders,
+  SettingsResult,
 };
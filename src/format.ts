@@ -0,0 +1,202 @@
+import {
+  Citation,
+  OutputFormat,
+  SearchAction,
+  SearchHit,
+  StructuredSearchResponse,
+} from "./types.js";
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const EMPTY_LENGTH = 0;
+const FIRST_OFFSET = 0;
+const FIRST_SOURCE_NUMBER = 1;
+const JSON_INDENT = 2;
+const NO_RESULTS = "No results found.";
+
+// ── Markdown ───────────────────────────────────────────────────────────
+
+const escapeLinkText = (text: string): string => text.replaceAll(/([[\]\\])/g, String.raw`\$1`);
+
+/**
+ * Collect the deduplicated sources: the returned hits first, then any
+ * cited URL the provider did not also list as a hit.
+ */
+const collectSources = (response: StructuredSearchResponse): SearchHit[] => {
+  const seen = new Set<string>();
+  const sources: SearchHit[] = [];
+  const pushSource = (hit: SearchHit): void => {
+    if (!seen.has(hit.url)) {
+      seen.add(hit.url);
+      sources.push(hit);
+    }
+  };
+
+  for (const result of response.results) {
+    if (typeof result === "string") {
+      continue;
+    }
+
+    for (const hit of result) {
+      pushSource(hit);
+    }
+  }
+
+  for (const citation of response.citations ?? []) {
+    pushSource({ title: citation.title, url: citation.url });
+  }
+
+  return sources;
+};
+
+/**
+ * Insert a ` [n]` marker after each cited span, `n` being the cited
+ * URL's number in the sources list. Markers are inserted from the end of
+ * the text backwards so earlier offsets stay valid.
+ */
+const insertCitationMarkers = (
+  text: string,
+  citations: Citation[],
+  sourceNumbers: Map<string, number>,
+): string => {
+  const markers = new Map<number, number[]>();
+
+  for (const citation of citations) {
+    const number = sourceNumbers.get(citation.url);
+    const atEnd = markers.get(citation.end) ?? [];
+    if (number !== undefined && !atEnd.includes(number)) {
+      markers.set(citation.end, [...atEnd, number]);
+    }
+  }
+
+  let marked = text;
+  for (const [end, numbers] of [...markers].toSorted(([left], [right]) => right - left)) {
+    const label = numbers
+      .toSorted((left, right) => left - right)
+      .map((number) => `[${number}]`)
+      .join("");
+    marked = `${marked.slice(FIRST_OFFSET, end)} ${label}${marked.slice(end)}`;
+  }
+
+  return marked;
+};
+
+const collectSummary = (response: StructuredSearchResponse, sources: SearchHit[]): string[] => {
+  const sourceNumbers = new Map(
+    sources.map((hit, index) => [hit.url, index + FIRST_SOURCE_NUMBER]),
+  );
+  const citations = response.citations ?? [];
+  const summary: string[] = [];
+
+  for (const [index, result] of response.results.entries()) {
+    if (typeof result !== "string") {
+      continue;
+    }
+
+    const cited = citations.filter((citation) => citation.resultIndex === index);
+    summary.push(insertCitationMarkers(result, cited, sourceNumbers));
+  }
+
+  return summary;
+};
+
+const renderNotes = (response: StructuredSearchResponse): string[] => {
+  const notes: string[] = [];
+
+  if (response.cached) {
+    notes.push("_Served from the search cache._");
+  }
+
+  if (response.answeredBy && response.failures) {
+    const { model, providerID } = response.answeredBy;
+    notes.push(
+      `_Answered by ${providerID} (${model}) after ${response.failures.length} failed attempt(s)._`,
+    );
+  }
+
+  return notes;
+};
+
+const describeAction = (action: SearchAction): string => {
+  if (action.type === "search") {
+    return `Searched for "${action.query ?? ""}"`;
+  }
+
+  if (action.type === "open_page") {
+    return action.url ? `Opened ${action.url}` : "Opened a page";
+  }
+
+  const where = action.url ? ` in ${action.url}` : "";
+
+  return `Looked for "${action.pattern ?? ""}"${where}`;
+};
+
+const renderActions = (actions: SearchAction[] | undefined): string[] => {
+  if (!actions || actions.length === EMPTY_LENGTH) {
+    return [];
+  }
+
+  const lines = actions.map((action) => `- ${describeAction(action)}`);
+
+  return [`Search steps:\n\n${lines.join("\n")}`];
+};
+
+const renderSources = (sources: SearchHit[]): string[] => {
+  if (sources.length === EMPTY_LENGTH) {
+    return [];
+  }
+
+  const lines = sources.map((hit, index) => {
+    const date = hit.date ? ` (${hit.date})` : "";
+    const snippet = hit.snippet ? `\n   ${hit.snippet.replaceAll(/\s+/g, " ").trim()}` : "";
+
+    return `${index + FIRST_SOURCE_NUMBER}. [${escapeLinkText(hit.title)}](${hit.url})${date}${snippet}`;
+  });
+
+  return [`Sources:\n\n${lines.join("\n")}`];
+};
+
+/**
+ * Render a search response as markdown: the summary text with inline
+ * `[n]` citation markers, the search steps the provider executed, then a
+ * numbered list of deduplicated sources.
+ */
+const renderMarkdown = (response: StructuredSearchResponse): string => {
+  const sources = collectSources(response);
+  const summary = collectSummary(response, sources);
+  const body =
+    summary.length === EMPTY_LENGTH && sources.length === EMPTY_LENGTH
+      ? [NO_RESULTS]
+      : [...summary, ...renderActions(response.actions), ...renderSources(sources)];
+
+  return [
+    `Web search results for query: "${response.query}"`,
+    ...renderNotes(response),
+    ...body,
+  ].join("\n\n");
+};
+
+// ── Public API ─────────────────────────────────────────────────────────
+
+/**
+ * Render a search response in the configured output format.
+ *
+ * - `json`: the `StructuredSearchResponse` as a JSON string, for
+ *   scripted consumers.
+ * - `markdown`: readable markdown for the OpenCode UI and smaller models.
+ * - `both`: the markdown followed by the JSON in a fenced code block.
+ */
+const formatResponse = (response: StructuredSearchResponse, format: OutputFormat): string => {
+  if (format === "json") {
+    return JSON.stringify(response);
+  }
+
+  const markdown = renderMarkdown(response);
+  if (format === "markdown") {
+    return markdown;
+  }
+
+  return `${markdown}\n\n\`\`\`json\n${JSON.stringify(response, null, JSON_INDENT)}\n\`\`\``;
+};
+
+export { formatResponse };
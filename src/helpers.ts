@@ -1,6 +1,30 @@
+import { dirname } from "node:path";
+import { mkdirSync, renameSync, rmSync, writeFileSync } from "node:fs";
+
 // ── Helpers ────────────────────────────────────────────────────────────
 
 const getCurrentMonthYear = (): string =>
   new Date().toLocaleDateString("en-US", { month: "long", year: "numeric" });
 
-export { getCurrentMonthYear };
+/**
+ * Today's local date as `YYYY-MM-DD`.
+ */
+const getCurrentDate = (): string => new Date().toLocaleDateString("en-CA");
+
+/**
+ * Write `content` to a temporary file next to `filePath` and rename it
+ * into place, so concurrent readers never see a partly written file.
+ */
+const writeFileAtomic = (filePath: string, content: string): void => {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  mkdirSync(dirname(filePath), { recursive: true });
+  try {
+    writeFileSync(tempPath, content);
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+};
+
+export { getCurrentDate, getCurrentMonthYear, writeFileAtomic };
@@ -1,31 +1,51 @@
-import { ActiveModel, ProviderResolution } from "./types.js";
+import { ActiveModel, ProviderResolution, SearchAdapter } from "./types.js";
+import { PickedModel, buildSearchRequest, findSummarizer, runSearch } from "./search.js";
+import { SearchCache, openSearchCache } from "./cache.js";
+import {
+  ModelPrice,
+  UsageTracker,
+  collectModelPrices,
+  formatUsageReport,
+  openUsageTracker,
+} from "./usage.js";
 import { Plugin, PluginInput, tool } from "@opencode-ai/plugin";
 import {
   ProviderData,
   ScannedResolution,
+  SettingsResult,
+  formatInvalidSettingsError,
   formatNoProviderError,
   formatUnsupportedProviderError,
+  parseWebsearchSettings,
+  scanBackends,
   scanProviders,
 } from "./config.js";
-import { dispatchErrorMessage, dispatchSearch } from "./providers/index.js";
 import { getCurrentMonthYear } from "./helpers.js";
+import { listAdapterFiles, loadAdapters } from "./adapters.js";
+import { listPromptFiles, loadPromptFiles } from "./prompts.js";
+import { readResolutionStamp } from "./stamp.js";
+import { AdapterRegistry, createAdapterRegistry } from "./providers/index.js";
 import { resolveChatGPTCredentials } from "./providers/chatgpt/auth.js";
 import { resolveCopilotCredentials } from "./providers/copilot/auth.js";
 
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * The settings with the external adapters they list.
+ */
+type LoadedSettings = SettingsResult & { adapters: SearchAdapter[]; registry: AdapterRegistry };
+
 // ── Constants ──────────────────────────────────────────────────────────
 
 const CANONICAL_COPILOT_ID = "github-copilot";
 const CANONICAL_OPENAI_ID = "openai";
+// Case-insensitive here; the country is upper-cased when the location is merged.
+const COUNTRY_CODE_PATTERN = /^[A-Za-z]{2}$/;
 const MIN_QUERY_LENGTH = 2;
+const NO_CANDIDATES = 0;
+const NO_ISSUES = 0;
 const NO_RESOLUTIONS = 0;
 
-// ── Types ──────────────────────────────────────────────────────────────
-
-interface PickedModel {
-  modelID: string;
-  resolution: ProviderResolution;
-}
-
 // ── Lookup ─────────────────────────────────────────────────────────────
 
 const findActive = (
@@ -34,43 +54,46 @@ const findActive = (
 ): ProviderResolution | null =>
   resolutions.find((resolution) => resolution.providerID === active.providerID) ?? null;
 
-const findFirstWithKey = (
+const collectWithKey = (
   resolutions: ProviderResolution[],
   key: "fallbackModel" | "lockedModel",
-): ProviderResolution | null => resolutions.find((resolution) => Boolean(resolution[key])) ?? null;
+): PickedModel[] =>
+  resolutions.flatMap((resolution) => {
+    const modelID = resolution[key];
+    return modelID ? [{ modelID, resolution }] : [];
+  });
+
+const isSamePick = (left: PickedModel, right: PickedModel): boolean =>
+  left.modelID === right.modelID && left.resolution.providerID === right.resolution.providerID;
 
 /**
- * Pick the (model, resolution) pair to use for a web search call.
+ * Order the (model, resolution) pairs that can serve a web search call.
+ * The first pair is the one a search uses; the rest are failover targets.
  *
  * Priority:
- * 1. Locked model (`"websearch": "always"`) on any provider
+ * 1. Locked models (`"websearch": "always"`) on any provider
  * 2. Active model if its provider is in the resolution list
- * 3. Fallback model (`"websearch": "auto"`) on any provider
+ * 3. Fallback models (`"websearch": "auto"`) on any provider
  *
  * Within a tier, providers are walked in OpenCode config insertion order.
+ * A pair reachable through several tiers is kept at its first position.
  */
-const pickModel = (
+const pickModels = (
   resolutions: ProviderResolution[],
   active: ActiveModel | undefined,
-): PickedModel | null => {
-  const locked = findFirstWithKey(resolutions, "lockedModel");
-  if (locked?.lockedModel) {
-    return { modelID: locked.lockedModel, resolution: locked };
-  }
+): PickedModel[] => {
+  const ordered = collectWithKey(resolutions, "lockedModel");
 
-  if (active) {
-    const direct = findActive(active, resolutions);
-    if (direct) {
-      return { modelID: active.modelID, resolution: direct };
-    }
+  const direct = active ? findActive(active, resolutions) : null;
+  if (active && direct) {
+    ordered.push({ modelID: active.modelID, resolution: direct });
   }
 
-  const fallback = findFirstWithKey(resolutions, "fallbackModel");
-  if (fallback?.fallbackModel) {
-    return { modelID: fallback.fallbackModel, resolution: fallback };
-  }
+  ordered.push(...collectWithKey(resolutions, "fallbackModel"));
 
-  return null;
+  return ordered.filter(
+    (candidate, index) => ordered.findIndex((other) => isSamePick(candidate, other)) === index,
+  );
 };
 
 // ── Resolution loading ─────────────────────────────────────────────────
@@ -81,13 +104,19 @@ const hasCredentials = (resolution: ScannedResolution): resolution is ProviderRe
 const loadResolutions = async (
   client: PluginInput["client"],
   directory: string,
+  { adapters, issues, settings }: LoadedSettings,
 ): Promise<ProviderResolution[]> => {
   const { data } = await client.config.providers();
   if (!data) {
     return [];
   }
 
-  const scanned = scanProviders(data.providers as ProviderData[]);
+  const scanned = scanProviders(
+    data.providers as ProviderData[],
+    settings.providers,
+    adapters,
+    issues,
+  );
 
   /*
    * ChatGPT OAuth shadows the canonical `openai` provider when it has no
@@ -135,12 +164,85 @@ const loadResolutions = async (
   return scanned.filter(hasCredentials);
 };
 
+// ── Settings loading ───────────────────────────────────────────────────
+
+/**
+ * Parse the `websearch` block, load the system prompt files it names
+ * from the project's `.opencode/` directory and import the external
+ * adapters it lists into a registry of their own.
+ */
+const loadSettings = async (
+  client: PluginInput["client"],
+  worktree: string,
+): Promise<LoadedSettings> => {
+  const { data } = await client.config.get();
+  const { issues, settings } = parseWebsearchSettings(
+    (data as { websearch?: unknown } | undefined)?.websearch,
+  );
+  const adapters = await loadAdapters(settings.adapters, worktree, issues);
+
+  return {
+    adapters,
+    issues,
+    registry: createAdapterRegistry(adapters),
+    settings: loadPromptFiles(settings, worktree, issues),
+  };
+};
+
+const loadModelPrices = async (client: PluginInput["client"]): Promise<Map<string, ModelPrice>> => {
+  const { data } = await client.config.providers();
+
+  return collectModelPrices((data?.providers ?? []) as ProviderData[]);
+};
+
 // ── Plugin ─────────────────────────────────────────────────────────────
 
 // oxlint-disable-next-line import/no-default-export -- plugin entry point requires default export
 export default (async (input) => {
   let resolutions: ProviderResolution[] | null = null;
+  let loaded: LoadedSettings | null = null;
+  let cache: SearchCache | null = null;
+  let usage: UsageTracker | null = null;
+  let prices: Map<string, ModelPrice> | null = null;
   const activeModels = new Map<string, ActiveModel>();
+  let stamp: string | null = null;
+
+  /*
+   * Settings, resolutions and the state built from them (cache settings,
+   * usage tracker, model prices) are loaded lazily and kept until the
+   * files they come from change: logging in or out (which rewrites
+   * auth.json, as does refreshing an OAuth token), editing the OpenCode
+   * config or a system prompt file drops them, and the next call loads
+   * them again.
+   */
+  const readStamp = async (): Promise<string> =>
+    readResolutionStamp(
+      input.client,
+      input.directory,
+      input.worktree,
+      loaded
+        ? [
+            ...listPromptFiles(loaded.settings, input.worktree),
+            ...listAdapterFiles(loaded.settings.adapters, input.worktree),
+          ]
+        : [],
+    );
+
+  const loadFreshSettings = async (): Promise<LoadedSettings> => {
+    if (loaded && (await readStamp()) === stamp) {
+      return loaded;
+    }
+
+    resolutions = null;
+    cache = null;
+    usage = null;
+    prices = null;
+    loaded = await loadSettings(input.client, input.worktree);
+    // Stamped after loading, so the files the settings name count.
+    stamp = await readStamp();
+
+    return loaded;
+  };
 
   return {
     "chat.message": async (hookInput) => {
@@ -155,6 +257,36 @@ export default (async (input) => {
     tool: {
       "web-search": tool({
         args: {
+          allowedDomains: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe("Only include search results from these domains (e.g. postgresql.org)"),
+          blockedDomains: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe("Never include search results from these domains"),
+          fresh: tool.schema
+            .boolean()
+            .optional()
+            .describe("Bypass cached results and always perform a new search"),
+          language: tool.schema
+            .string()
+            .optional()
+            .describe("Preferred language for results (e.g. sv, Swedish)"),
+          location: tool.schema
+            .object({
+              city: tool.schema.string().optional(),
+              country: tool.schema
+                .string()
+                .trim()
+                .regex(COUNTRY_CODE_PATTERN, 'Must be a two-letter ISO country code such as "SE"')
+                .optional()
+                .describe("Two-letter ISO country code"),
+              region: tool.schema.string().optional(),
+              timezone: tool.schema.string().optional().describe("IANA timezone name"),
+            })
+            .optional()
+            .describe("Approximate user location for localized results"),
           query: tool.schema.string().min(MIN_QUERY_LENGTH).describe("The search query to use"),
         },
         description: `- Allows OpenCode to search the web and use the results to inform responses
@@ -181,28 +313,78 @@ IMPORTANT - Use the correct year in search queries:
   - Example: If the user asks for "latest React docs", search for "React documentation" with the current year, NOT last year`,
 
         async execute(args, context) {
-          resolutions ??= await loadResolutions(input.client, input.directory);
+          const current = await loadFreshSettings();
+          const { issues, settings } = current;
+          // Scanning can add issues of its own, from external adapters.
+          resolutions ??= [
+            ...(await loadResolutions(input.client, input.directory, current)),
+            ...scanBackends(settings),
+          ];
+          if (issues.length > NO_ISSUES) {
+            return formatInvalidSettingsError(issues);
+          }
+
+          cache ??= await openSearchCache(input.client, input.directory, settings.cache);
+          usage ??= await openUsageTracker(input.client, input.directory);
+          prices ??= await loadModelPrices(input.client);
 
           const active = activeModels.get(context.sessionID);
-          const picked = pickModel(resolutions, active);
+          const candidates = pickModels(resolutions, active);
 
-          if (!picked) {
+          if (candidates.length === NO_CANDIDATES) {
             return resolutions.length === NO_RESOLUTIONS
               ? formatNoProviderError()
               : formatUnsupportedProviderError(active?.modelID ?? "unknown");
           }
 
-          try {
-            return await dispatchSearch(
-              picked.resolution.type,
-              { ...picked.resolution.credentials, model: picked.modelID },
-              args.query,
-            );
-          } catch (error) {
-            return dispatchErrorMessage(picked.resolution.type, error);
+          const caller = { project: context.worktree, sessionID: context.sessionID };
+
+          const request = {
+            ...buildSearchRequest(args, settings, caller, context.abort),
+            summarizer: findSummarizer(candidates, active),
+          };
+
+          return runSearch(candidates, request, {
+            adapters: current.registry,
+            cache,
+            prices,
+            settings,
+            usage,
+          });
+        },
+      }),
+
+      "web-search-stats": tool({
+        args: {},
+        description: `- Reports how many web searches this session and project have run
+- Includes input/output tokens, failed calls, average latency and estimated cost per provider and model
+- Costs are estimates from model token prices and per-search prices`,
+
+        async execute(_args, context) {
+          const { issues, settings } = await loadFreshSettings();
+          if (issues.length > NO_ISSUES) {
+            return formatInvalidSettingsError(issues);
           }
+
+          usage ??= await openUsageTracker(input.client, input.directory);
+          prices ??= await loadModelPrices(input.client);
+
+          return formatUsageReport(
+            usage.read(context.sessionID, context.worktree),
+            prices,
+            settings,
+          );
         },
       }),
     },
   };
 }) satisfies Plugin;
+
+export type {
+  AdapterProvider,
+  ProviderCredentials,
+  SearchAdapter,
+  SearchConfig,
+  SearchHit,
+  StructuredSearchResponse,
+} from "./types.js";
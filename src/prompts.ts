@@ -0,0 +1,219 @@
+import { existsSync, readFileSync } from "node:fs";
+import { isAbsolute, join, relative, sep } from "node:path";
+
+import { SearchHit, SearchInstructions, SearchTuning, WebsearchSettings } from "./types.js";
+import { EMPTY_LENGTH } from "./providers/shared/search.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * The values substituted for a template's placeholders.
+ */
+interface PromptContext {
+  date: string;
+  project: string;
+  query: string;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const PROMPT_DIRECTORY = ".opencode";
+const PARENT_DIRECTORY = "..";
+const PROMPT_PLACEHOLDERS = new Set(["date", "project", "query"]);
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const SUMMARY_SYSTEM_PROMPT = "You are an assistant summarizing web search results";
+const FIRST_RESULT_NUMBER = 1;
+
+// ── Templates ──────────────────────────────────────────────────────────
+
+/**
+ * List the placeholders in `template` that are not one of `{{query}}`,
+ * `{{date}}` or `{{project}}`.
+ */
+const findUnknownPlaceholders = (template: string): string[] => {
+  const names = [...template.matchAll(PLACEHOLDER_PATTERN)].map(([, name]) => name ?? "");
+
+  return [...new Set(names)].filter((name) => !PROMPT_PLACEHOLDERS.has(name));
+};
+
+const hasQueryPlaceholder = (template: string): boolean =>
+  [...template.matchAll(PLACEHOLDER_PATTERN)].some(([, name]) => name === "query");
+
+const renderTemplate = (template: string, context: PromptContext): string =>
+  template.replaceAll(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in context ? context[name as keyof PromptContext] : placeholder,
+  );
+
+/**
+ * Render the resolved prompt templates for one search.
+ */
+const buildInstructions = (tuning: SearchTuning, context: PromptContext): SearchInstructions => ({
+  prompt: renderTemplate(tuning.promptTemplate, context),
+  system: renderTemplate(tuning.systemPrompt, context),
+});
+
+const formatSummaryResult = (hit: SearchHit, index: number): string => {
+  const lines = [`${index + FIRST_RESULT_NUMBER}. ${hit.title} (${hit.url})`];
+  if (hit.date) {
+    lines.push(`   Published: ${hit.date}`);
+  }
+  if (hit.snippet) {
+    lines.push(`   ${hit.snippet}`);
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Instructions asking an LLM to summarize a search backend's hits. The
+ * model is told to answer from the listed results rather than search
+ * again; the configured prompt templates do not apply.
+ */
+const buildSummaryInstructions = (query: string, hits: SearchHit[]): SearchInstructions => ({
+  prompt: `Answer the query "${query}" using only the search results below, without searching the web again. Cite the results you use by their URL.\n\n${hits.map(formatSummaryResult).join("\n")}`,
+  system: SUMMARY_SYSTEM_PROMPT,
+});
+
+// ── Prompt files ───────────────────────────────────────────────────────
+
+/**
+ * Read a prompt file, reporting a directory or an unreadable file as a
+ * settings issue.
+ */
+const readPromptContent = (
+  filePath: string,
+  path: string,
+  issues: string[],
+): string | undefined => {
+  try {
+    return readFileSync(filePath, "utf8").trim();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    issues.push(`\`${path}\` (${filePath}) could not be read: ${reason}`);
+    return undefined;
+  }
+};
+
+/**
+ * Read a `systemPromptFile` from the project's `.opencode/` directory.
+ * Paths leaving that directory are rejected.
+ */
+const readPromptFile = (
+  file: string,
+  path: string,
+  worktree: string,
+  issues: string[],
+): string | undefined => {
+  const directory = join(worktree, PROMPT_DIRECTORY);
+  const filePath = join(directory, file);
+  const inside = relative(directory, filePath);
+
+  if (
+    isAbsolute(file) ||
+    inside === PARENT_DIRECTORY ||
+    inside.startsWith(`${PARENT_DIRECTORY}${sep}`) ||
+    isAbsolute(inside)
+  ) {
+    issues.push(`\`${path}\` must name a file inside ${PROMPT_DIRECTORY}/ (got "${file}").`);
+    return undefined;
+  }
+
+  if (!existsSync(filePath)) {
+    issues.push(`\`${path}\` names a file that does not exist: ${filePath}.`);
+    return undefined;
+  }
+
+  const content = readPromptContent(filePath, path, issues);
+  if (content === undefined) {
+    return undefined;
+  }
+
+  const unknown = findUnknownPlaceholders(content);
+  if (unknown.length > EMPTY_LENGTH) {
+    issues.push(
+      `\`${path}\` (${filePath}) uses unknown placeholders: ${unknown.map((name) => `{{${name}}}`).join(", ")}.`,
+    );
+  }
+
+  return content;
+};
+
+const applyPromptFile = <Tuning extends Partial<SearchTuning>>(
+  tuning: Tuning,
+  path: string,
+  worktree: string,
+  issues: string[],
+): Tuning => {
+  if (tuning.systemPromptFile === undefined) {
+    return tuning;
+  }
+
+  const content = readPromptFile(
+    tuning.systemPromptFile,
+    `${path}.systemPromptFile`,
+    worktree,
+    issues,
+  );
+
+  return content === undefined ? tuning : { ...tuning, systemPrompt: content };
+};
+
+/**
+ * Replace `systemPrompt` with the content of `systemPromptFile` at every
+ * level (global, provider, model) that sets one. Files that cannot be
+ * read are reported as settings issues.
+ */
+const loadPromptFiles = (
+  settings: WebsearchSettings,
+  worktree: string,
+  issues: string[],
+): WebsearchSettings => {
+  const providers = Object.fromEntries(
+    Object.entries(settings.providers).map(([providerID, provider]) => {
+      const path = `websearch.providers.${providerID}`;
+      const models = Object.fromEntries(
+        Object.entries(provider.models).map(([modelID, model]) => [
+          modelID,
+          applyPromptFile(model, `${path}.models.${modelID}`, worktree, issues),
+        ]),
+      );
+
+      return [
+        providerID,
+        { ...provider, models, tuning: applyPromptFile(provider.tuning, path, worktree, issues) },
+      ];
+    }),
+  );
+
+  return {
+    ...settings,
+    providers,
+    tuning: applyPromptFile(settings.tuning, "websearch", worktree, issues),
+  };
+};
+
+/**
+ * The paths of the `systemPromptFile`s named at any level of `settings`.
+ */
+const listPromptFiles = (settings: WebsearchSettings, worktree: string): string[] => {
+  const tunings: Partial<SearchTuning>[] = [settings.tuning];
+  for (const provider of Object.values(settings.providers)) {
+    tunings.push(provider.tuning, ...Object.values(provider.models));
+  }
+
+  return tunings.flatMap((tuning) =>
+    tuning.systemPromptFile === undefined
+      ? []
+      : [join(worktree, PROMPT_DIRECTORY, tuning.systemPromptFile)],
+  );
+};
+
+export {
+  buildInstructions,
+  buildSummaryInstructions,
+  findUnknownPlaceholders,
+  hasQueryPlaceholder,
+  listPromptFiles,
+  loadPromptFiles,
+  PromptContext,
+};
@@ -1,12 +1,16 @@
 import Anthropic, { APIError } from "@anthropic-ai/sdk";
 
+import { EMPTY_LENGTH, buildSearchInput } from "../shared/search.js";
 import {
-  EMPTY_LENGTH,
-  MAX_RESPONSE_TOKENS,
-  SEARCH_SYSTEM_PROMPT,
-  buildSearchInput,
-} from "../shared/search.js";
-import { SearchConfig, SearchHit, StructuredSearchResponse } from "../../types.js";
+  Citation,
+  SearchAction,
+  SearchConfig,
+  SearchHit,
+  SearchUsage,
+  StructuredSearchResponse,
+} from "../../types.js";
+import { SDK_MAX_RETRIES, withRetry } from "../shared/retry.js";
+import { buildSDKTimeoutOptions } from "../shared/timeout.js";
 import { formatUnhandledSearchError } from "../shared/errors.js";
 
 // ── Anthropic-specific types ────────────────────────────────────────────
@@ -30,11 +34,20 @@ interface ServerToolUse {
   type: "server_tool_use";
 }
 
-type ContentBlock = { text: string; type: "text" } | ServerToolUse | WebSearchToolResult;
+interface WebSearchResultLocation {
+  cited_text: string;
+  title: string | null;
+  type: "web_search_result_location";
+  url: string;
+}
 
-// ── Constants ──────────────────────────────────────────────────────────
+interface TextBlock {
+  citations?: WebSearchResultLocation[] | null;
+  text: string;
+  type: "text";
+}
 
-const DEFAULT_SEARCH_USES = 8;
+type ContentBlock = ServerToolUse | TextBlock | WebSearchToolResult;
 
 // ── Response processing ─────────────────────────────────────────────────
 
@@ -59,29 +72,110 @@ const processBlock = (block: ContentBlock): SearchHit[] | string | null => {
   return null;
 };
 
+/**
+ * Anthropic reports a failed search (e.g. `too_many_requests`) as a
+ * result block carrying an error code instead of throwing.
+ */
+const hasSearchError = (content: ContentBlock[]): boolean =>
+  content.some((block) => block.type === "web_search_tool_result" && !Array.isArray(block.content));
+
+/**
+ * Anthropic splits cited text into its own text blocks, so each citation
+ * covers the whole (trimmed) summary string it belongs to.
+ */
+const collectBlockCitations = (block: TextBlock, text: string, resultIndex: number): Citation[] =>
+  (block.citations ?? [])
+    .filter((citation) => citation.type === "web_search_result_location")
+    .map((citation) => ({
+      citedText: citation.cited_text,
+      end: text.length,
+      resultIndex,
+      start: 0,
+      title: citation.title ?? citation.url,
+      url: citation.url,
+    }));
+
+/**
+ * Anthropic bills and counts executed searches in
+ * `usage.server_tool_use.web_search_requests`; the `server_tool_use`
+ * blocks are the fallback when it is absent.
+ */
+const buildUsage = (usage: Anthropic.Usage, actions: SearchAction[]): SearchUsage => ({
+  inputTokens: usage.input_tokens,
+  outputTokens: usage.output_tokens,
+  searches: usage.server_tool_use?.web_search_requests ?? actions.length,
+});
+
 const processResponseBlocks = (
   query: string,
   content: ContentBlock[],
+  usage: Anthropic.Usage,
 ): StructuredSearchResponse => {
   const results: (SearchHit[] | string)[] = [];
+  const citations: Citation[] = [];
+  const actions: SearchAction[] = [];
 
   for (const block of content) {
+    if (block.type === "server_tool_use" && block.name === "web_search") {
+      actions.push({ query: block.input.query, type: "search" });
+    }
+
     const result = processBlock(block);
-    if (result !== null) {
-      results.push(result);
+    if (result === null) {
+      continue;
+    }
+
+    if (block.type === "text" && typeof result === "string") {
+      citations.push(...collectBlockCitations(block, result, results.length));
     }
+    results.push(result);
   }
 
-  return { query, results };
+  const response: StructuredSearchResponse = {
+    query,
+    results,
+    usage: buildUsage(usage, actions),
+  };
+  if (actions.length > EMPTY_LENGTH) {
+    response.actions = actions;
+  }
+  if (citations.length > EMPTY_LENGTH) {
+    response.citations = citations;
+  }
+  if (hasSearchError(content)) {
+    response.failed = true;
+  }
+
+  return response;
 };
 
 // ── Search tool construction ───────────────────────────────────────────
 
-const buildWebSearchTool = (): Record<string, unknown> => ({
-  max_uses: DEFAULT_SEARCH_USES,
-  name: "web_search",
-  type: "web_search_20250305",
-});
+/**
+ * Anthropic accepts either `allowed_domains` or `blocked_domains`, never
+ * both. When both are configured the allow-list is sent natively and the
+ * block-list is enforced by post-filtering the returned hits.
+ * The result language has no native parameter and goes into the prompt.
+ */
+const buildWebSearchTool = (config: SearchConfig): Record<string, unknown> => {
+  const tool: Record<string, unknown> = {
+    max_uses: config.tuning.maxSearchUses,
+    name: "web_search",
+    type: "web_search_20250305",
+  };
+
+  if (config.domains.allowed.length > EMPTY_LENGTH) {
+    tool.allowed_domains = config.domains.allowed;
+  } else if (config.domains.blocked.length > EMPTY_LENGTH) {
+    tool.blocked_domains = config.domains.blocked;
+  }
+
+  if (config.location) {
+    tool.user_location = { ...config.location, type: "approximate" };
+  }
+
+  return tool;
+};
 
 // ── Error formatting ───────────────────────────────────────────────────
 
@@ -96,8 +190,10 @@ const formatErrorMessage = (error: unknown): string => {
 // ── Client and execution ───────────────────────────────────────────────
 
 const createAnthropicClient = (config: SearchConfig): Anthropic => {
-  const options: { apiKey: string; baseURL?: string } = {
+  const options: { apiKey: string; baseURL?: string; maxRetries: number; timeout?: number } = {
     apiKey: config.apiKey,
+    maxRetries: SDK_MAX_RETRIES,
+    ...buildSDKTimeoutOptions(config.timeouts),
   };
 
   if (config.baseURL) {
@@ -107,27 +203,39 @@ const createAnthropicClient = (config: SearchConfig): Anthropic => {
   return new Anthropic(options);
 };
 
-const executeSearch = async (config: SearchConfig, query: string): Promise<string> => {
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
   const client = createAnthropicClient(config);
-  const webSearchTool = buildWebSearchTool();
-
-  const response = await client.messages.create({
-    max_tokens: MAX_RESPONSE_TOKENS,
-    messages: [
-      {
-        content: buildSearchInput(query),
-        role: "user",
-      },
-    ],
-    model: config.model,
-    system: SEARCH_SYSTEM_PROMPT,
-    tools: [webSearchTool as unknown as Anthropic.Tool],
-  });
+  const tools = config.withoutSearch
+    ? []
+    : [buildWebSearchTool(config) as unknown as Anthropic.Tool];
+
+  const response = await withRetry(
+    async () =>
+      client.messages.create(
+        {
+          max_tokens: config.tuning.maxTokens,
+          messages: [
+            {
+              content: buildSearchInput(config.instructions.prompt, { language: config.language }),
+              role: "user",
+            },
+          ],
+          model: config.model,
+          system: config.instructions.system,
+          tools,
+        },
+        { signal },
+      ),
+    signal,
+  );
 
   const content = response.content as ContentBlock[];
-  const structured = processResponseBlocks(query, content);
 
-  return JSON.stringify(structured);
+  return processResponseBlocks(query, content, response.usage);
 };
 
 export { executeSearch, formatErrorMessage };
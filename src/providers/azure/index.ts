@@ -0,0 +1,108 @@
+import {
+  buildResponsesUsage,
+  buildResponsesToolFields,
+  collectCitationSpans,
+  collectSearchActions,
+  collectUniqueAnnotationHits,
+  resolveOutputText,
+} from "../shared/openai-compatible.js";
+import { buildSearchInput, buildStructuredResponse } from "../shared/search.js";
+import { APIError, AzureOpenAI } from "openai";
+import { SDK_MAX_RETRIES, withRetry } from "../shared/retry.js";
+import { SearchConfig, StructuredSearchResponse } from "../../types.js";
+import { buildSDKTimeoutOptions } from "../shared/timeout.js";
+import { formatUnhandledSearchError } from "../shared/errors.js";
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const AZURE_DEFAULT_API_VERSION = "2025-04-01-preview";
+const MISSING_ENDPOINT_MESSAGE =
+  "Azure OpenAI requires a `resourceName` or `baseURL` in the provider options, or the AZURE_RESOURCE_NAME environment variable";
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => {
+  if (error instanceof APIError) {
+    return `Azure OpenAI API error: ${error.message} (status: ${error.status})`;
+  }
+
+  return formatUnhandledSearchError(error);
+};
+
+// ── Client creation ────────────────────────────────────────────────────
+
+/**
+ * `baseURL` follows the `@ai-sdk/azure` convention and already ends in
+ * `/openai`; otherwise it is derived from the resource name.
+ */
+const resolveAzureBaseURL = (config: SearchConfig): string => {
+  if (config.baseURL) {
+    return config.baseURL.replace(/\/$/, "");
+  }
+
+  if (config.resourceName) {
+    return `https://${config.resourceName}.openai.azure.com/openai`;
+  }
+
+  throw new Error(MISSING_ENDPOINT_MESSAGE);
+};
+
+/**
+ * Create an Azure OpenAI client. API keys are sent in the `api-key`
+ * header; with `entraAuth` set, the key is a Microsoft Entra ID access
+ * token and is sent as a bearer token instead.
+ */
+const createAzureClient = (config: SearchConfig): AzureOpenAI => {
+  const { apiKey } = config;
+  const auth = config.entraAuth
+    ? { azureADTokenProvider: async (): Promise<string> => apiKey }
+    : { apiKey };
+
+  return new AzureOpenAI({
+    ...auth,
+    ...buildSDKTimeoutOptions(config.timeouts),
+    apiVersion: config.apiVersion ?? AZURE_DEFAULT_API_VERSION,
+    baseURL: resolveAzureBaseURL(config),
+    maxRetries: SDK_MAX_RETRIES,
+  });
+};
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+/**
+ * Search through the Responses API `web_search` tool. The model is the
+ * Azure deployment name.
+ */
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const client = createAzureClient(config);
+
+  const response = await withRetry(
+    async () =>
+      client.responses.create(
+        {
+          input: buildSearchInput(config.instructions.prompt, { language: config.language }),
+          instructions: config.instructions.system,
+          max_output_tokens: config.tuning.maxTokens,
+          model: config.model,
+          ...buildResponsesToolFields(config),
+        },
+        { signal },
+      ),
+    signal,
+  );
+
+  const outputText = resolveOutputText(response.output_text, response.output);
+  const hits = collectUniqueAnnotationHits(response.output);
+  const spans = collectCitationSpans(response.output);
+  const actions = collectSearchActions(response.output);
+
+  const usage = buildResponsesUsage(response.usage, actions);
+
+  return buildStructuredResponse(query, outputText, hits, { actions, spans, usage });
+};
+
+export { executeSearch, formatErrorMessage };
@@ -0,0 +1,104 @@
+import {
+  buildBackendHit,
+  buildBackendResponse,
+  fetchBackendJSON,
+  formatBackendError,
+} from "../shared/backend.js";
+import { SearchConfig, SearchRecency, StructuredSearchResponse } from "../../types.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface BraveResult {
+  description?: string;
+  page_age?: string;
+  title?: string;
+  url?: string;
+}
+
+interface BraveResponse {
+  web?: { results?: BraveResult[] };
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const BRAVE_DEFAULT_BASE_URL = "https://api.search.brave.com/res/v1";
+// Brave returns at most 20 web results per request.
+const MAX_COUNT = 20;
+// Brave only understands two-letter codes for the country and language.
+const TWO_LETTER_CODE_PATTERN = /^[a-z]{2}$/i;
+// Brave has no one-hour window, so `hour` narrows to the last day.
+const FRESHNESS_BY_RECENCY: Record<SearchRecency, string> = {
+  day: "pd",
+  hour: "pd",
+  month: "pm",
+  week: "pw",
+  year: "py",
+};
+const HTML_TAG_PATTERN = /<[^>]+>/g;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => formatBackendError("Brave Search", error);
+
+// ── Request helpers ────────────────────────────────────────────────────
+
+/**
+ * Build the web search URL. Brave has no domain parameters, so domains
+ * are enforced on the returned hits.
+ */
+const buildSearchURL = (config: SearchConfig, query: string): string => {
+  const url = new URL(
+    `${(config.baseURL ?? BRAVE_DEFAULT_BASE_URL).replace(/\/$/, "")}/web/search`,
+  );
+  url.searchParams.set("q", query);
+  url.searchParams.set("count", String(Math.min(config.tuning.maxResults, MAX_COUNT)));
+
+  const country = config.location?.country;
+  if (country && TWO_LETTER_CODE_PATTERN.test(country)) {
+    url.searchParams.set("country", country.toLowerCase());
+  }
+
+  if (config.language && TWO_LETTER_CODE_PATTERN.test(config.language)) {
+    url.searchParams.set("search_lang", config.language.toLowerCase());
+  }
+
+  if (config.tuning.searchRecency) {
+    url.searchParams.set("freshness", FRESHNESS_BY_RECENCY[config.tuning.searchRecency]);
+  }
+
+  return url.toString();
+};
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+/**
+ * Search the Brave Search web index. Result descriptions carry `<strong>`
+ * highlighting, which is stripped from the snippets.
+ */
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const response = await fetchBackendJSON<BraveResponse>(
+    config,
+    buildSearchURL(config, query),
+    { headers: { Accept: "application/json", "X-Subscription-Token": config.apiKey } },
+    signal,
+  );
+
+  const hits = (response.web?.results ?? []).flatMap((result) =>
+    result.url
+      ? [
+          buildBackendHit(result.url, result.title?.replace(HTML_TAG_PATTERN, ""), {
+            date: result.page_age,
+            snippet: result.description?.replace(HTML_TAG_PATTERN, ""),
+          }),
+        ]
+      : [],
+  );
+
+  return buildBackendResponse(query, config, hits);
+};
+
+export { executeSearch, formatErrorMessage };
@@ -2,11 +2,20 @@ import { formatUnhandledSearchError } from "../shared/errors.js";
 import {
   buildSearchInput,
   buildStructuredResponse,
+  CitationSpan,
   EMPTY_LENGTH,
-  SEARCH_SYSTEM_PROMPT,
 } from "../shared/search.js";
-import { SearchConfig, SearchHit } from "../../types.js";
+import { SearchAction, SearchConfig, SearchHit, StructuredSearchResponse } from "../../types.js";
 import { CHATGPT_DEFAULT_BASE_URL, CHATGPT_USER_AGENT } from "./constants.js";
+import {
+  ResponsesUsage,
+  WebSearchCallAction,
+  buildResponsesUsage,
+  buildResponsesToolFields,
+  toSearchActions,
+} from "../shared/openai-compatible.js";
+import { Deadline, createDeadline, resolveTimeoutError } from "../shared/timeout.js";
+import { withRetry } from "../shared/retry.js";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -18,10 +27,26 @@ interface ChatGPTErrorBody {
 interface ChatGPTEventData {
   delta?: string;
   item?: ChatGPTOutputItem;
+  response?: { usage?: ResponsesUsage | null };
+}
+
+interface ChatGPTAnnotation {
+  end_index?: number;
+  start_index?: number;
+  title?: string;
+  type?: string;
+  url?: string;
+}
+
+interface ChatGPTContentPart {
+  annotations?: ChatGPTAnnotation[];
+  text?: string;
+  type?: string;
 }
 
 interface ChatGPTOutputItem {
-  action?: ChatGPTSearchAction;
+  action?: ChatGPTSearchAction & WebSearchCallAction;
+  content?: ChatGPTContentPart[];
   type?: string;
 }
 
@@ -40,9 +65,12 @@ interface ParsedSSEEvent {
 }
 
 interface StreamState {
+  actions: SearchAction[];
   hits: SearchHit[];
   outputText: string;
   seenURLs: Set<string>;
+  spans: CitationSpan[];
+  usage?: ResponsesUsage | null;
 }
 
 // ── Constants ──────────────────────────────────────────────────────────
@@ -57,7 +85,6 @@ const STREAM_ENABLED = true;
 const STORE_DISABLED = false;
 const USER_ROLE = "user";
 const WEB_SEARCH_INCLUDE = ["web_search_call.action.sources"];
-const WEB_SEARCH_TOOL = { type: "web_search" };
 
 // ── Error formatting ───────────────────────────────────────────────────
 
@@ -95,20 +122,24 @@ const resolveResponsesURL = (baseURL: string | undefined): string => {
   return `${resolvedBaseURL}/responses`;
 };
 
-const buildRequestBody = (config: SearchConfig, query: string): Record<string, unknown> => ({
+const buildRequestBody = (config: SearchConfig): Record<string, unknown> => ({
   include: WEB_SEARCH_INCLUDE,
   input: [
     {
-      content: [{ text: buildSearchInput(query), type: "input_text" }],
+      content: [
+        {
+          text: buildSearchInput(config.instructions.prompt, { language: config.language }),
+          type: "input_text",
+        },
+      ],
       role: USER_ROLE,
     },
   ],
-  instructions: SEARCH_SYSTEM_PROMPT,
+  instructions: config.instructions.system,
   model: config.model,
   store: STORE_DISABLED,
   stream: STREAM_ENABLED,
-  tool_choice: "auto",
-  tools: [WEB_SEARCH_TOOL],
+  ...buildResponsesToolFields(config),
 });
 
 const parseErrorBody = (text: string): string => {
@@ -139,7 +170,10 @@ const parseErrorBody = (text: string): string => {
 const throwAPIError = async (response: Response): Promise<never> => {
   const text = await response.text();
   const message = parseErrorBody(text);
-  const error = Object.assign(new Error(message), { status: response.status });
+  const error = Object.assign(new Error(message), {
+    headers: response.headers,
+    status: response.status,
+  });
 
   throw error;
 };
@@ -147,9 +181,11 @@ const throwAPIError = async (response: Response): Promise<never> => {
 // ── SSE parsing ────────────────────────────────────────────────────────
 
 const createStreamState = (): StreamState => ({
+  actions: [],
   hits: [],
   outputText: "",
   seenURLs: new Set<string>(),
+  spans: [],
 });
 
 const parseEventBlock = (block: string): ParsedSSEEvent | null => {
@@ -182,21 +218,26 @@ const parseEventData = (data: string): ChatGPTEventData | null => {
   }
 };
 
-const pushUniqueHit = (state: StreamState, url: string): void => {
+const pushUniqueHit = (state: StreamState, url: string, title = url): void => {
   if (state.seenURLs.has(url)) {
     return;
   }
 
   state.seenURLs.add(url);
-  state.hits.push({ title: url, url });
+  state.hits.push({ title, url });
 };
 
-const appendSearchSources = (item: ChatGPTOutputItem | undefined, state: StreamState): void => {
+/**
+ * Record a completed `web_search_call`: the executed action, and the
+ * sources of a search as hits.
+ */
+const appendSearchCall = (item: ChatGPTOutputItem | undefined, state: StreamState): void => {
   if (!item || item.type !== "web_search_call") {
     return;
   }
 
   const { action } = item;
+  state.actions.push(...toSearchActions(action));
   if (!action || action.type !== "search" || !action.sources) {
     return;
   }
@@ -206,6 +247,39 @@ const appendSearchSources = (item: ChatGPTOutputItem | undefined, state: StreamS
   }
 };
 
+const appendPartCitations = (part: ChatGPTContentPart, state: StreamState): void => {
+  const { annotations, text } = part;
+  if (part.type !== "output_text" || !annotations || typeof text !== "string") {
+    return;
+  }
+
+  for (const annotation of annotations) {
+    const { end_index: end, start_index: start, title, url } = annotation;
+    if (annotation.type !== "url_citation" || typeof url !== "string") {
+      continue;
+    }
+
+    pushUniqueHit(state, url, title);
+    if (typeof start === "number" && typeof end === "number") {
+      state.spans.push({ text: text.slice(start, end), title: title ?? url, url });
+    }
+  }
+};
+
+/**
+ * Collect `url_citation` annotations from a completed message item. The
+ * streamed deltas carry the text; the final item carries the annotations.
+ */
+const appendMessageCitations = (item: ChatGPTOutputItem | undefined, state: StreamState): void => {
+  if (!item || item.type !== "message" || !item.content) {
+    return;
+  }
+
+  for (const part of item.content) {
+    appendPartCitations(part, state);
+  }
+};
+
 const applyEventData = (event: ParsedSSEEvent, state: StreamState): void => {
   const parsed = parseEventData(event.data);
   if (!parsed) {
@@ -217,7 +291,12 @@ const applyEventData = (event: ParsedSSEEvent, state: StreamState): void => {
   }
 
   if (event.type === "response.output_item.done") {
-    appendSearchSources(parsed.item, state);
+    appendSearchCall(parsed.item, state);
+    appendMessageCitations(parsed.item, state);
+  }
+
+  if (event.type === "response.completed") {
+    state.usage = parsed.response?.usage;
   }
 };
 
@@ -242,7 +321,16 @@ const consumeBuffer = (buffer: string, state: StreamState): string => {
   }
 };
 
-const readStreamResponse = async (response: Response): Promise<StreamState> => {
+/**
+ * Aborting the request signal also errors the body stream, so a
+ * cancelled search stops waiting for the next chunk. `idle` is re-armed
+ * for every chunk and aborts the request when the stream stalls.
+ */
+const readStreamResponse = async (
+  response: Response,
+  signal: AbortSignal,
+  idle: Deadline,
+): Promise<StreamState> => {
   const { body } = response;
   if (!body) {
     throw new Error(EMPTY_RESPONSE_BODY);
@@ -252,10 +340,14 @@ const readStreamResponse = async (response: Response): Promise<StreamState> => {
   const decoder = new TextDecoder();
   let buffer = "";
 
+  idle.start();
   for await (const chunk of body) {
+    signal.throwIfAborted();
+    idle.start();
     buffer += decoder.decode(chunk, { stream: true });
     buffer = consumeBuffer(buffer, state);
   }
+  idle.clear();
 
   buffer += decoder.decode();
   consumeBuffer(buffer, state);
@@ -265,21 +357,61 @@ const readStreamResponse = async (response: Response): Promise<StreamState> => {
 
 // ── Execution ──────────────────────────────────────────────────────────
 
-const executeSearch = async (config: SearchConfig, query: string): Promise<string> => {
+/**
+ * Open the SSE stream, throwing a status-carrying error for non-2xx
+ * responses so the shared retry policy can classify it. `connect` is
+ * armed until the response headers arrive.
+ */
+const openStream = async (
+  config: SearchConfig,
+  signal: AbortSignal,
+  connect: Deadline,
+): Promise<Response> => {
+  connect.start();
   const response = await fetch(resolveResponsesURL(config.baseURL), {
-    body: JSON.stringify(buildRequestBody(config, query)),
+    body: JSON.stringify(buildRequestBody(config)),
     headers: buildDefaultHeaders(config.accountId, config.apiKey),
     method: "POST",
-  });
+    signal,
+  }).finally(connect.clear);
 
   if (!response.ok) {
     return throwAPIError(response);
   }
 
-  const streamState = await readStreamResponse(response);
-  const structured = buildStructuredResponse(query, streamState.outputText, streamState.hits);
+  return response;
+};
 
-  return JSON.stringify(structured);
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const connect = createDeadline("connect", config.timeouts.connectMs);
+  const idle = createDeadline("idle", config.timeouts.idleMs);
+  const requestSignal = AbortSignal.any([signal, connect.signal, idle.signal]);
+
+  try {
+    const response = await withRetry(
+      async () => openStream(config, requestSignal, connect),
+      requestSignal,
+    );
+    const streamState = await readStreamResponse(response, requestSignal, idle);
+
+    const { actions, spans } = streamState;
+    const usage = buildResponsesUsage(streamState.usage, actions);
+
+    return buildStructuredResponse(query, streamState.outputText, streamState.hits, {
+      actions,
+      spans,
+      usage,
+    });
+  } catch (error) {
+    throw resolveTimeoutError(error, config.timeouts, [connect, idle]);
+  } finally {
+    connect.clear();
+    idle.clear();
+  }
 };
 
 export { executeSearch, formatErrorMessage };
@@ -1,5 +1,8 @@
-import { COPILOT_DEFAULT_BASE_URL } from "./constants.js";
+import { COPILOT_DEFAULT_BASE_URL, COPILOT_USER_AGENT } from "./constants.js";
 import { PathClient, readAuthEntry } from "../shared/auth.js";
+import { SearchConfig } from "../../types.js";
+import { getErrorStatus } from "../shared/errors.js";
+import { withRetry } from "../shared/retry.js";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -12,15 +15,67 @@ interface CopilotAuthEntry {
 interface CopilotCredentials {
   apiKey: string;
   baseURL?: string;
+  githubDomain: string;
+}
+
+interface CopilotTokenResponse {
+  endpoints?: { api?: string };
+  expires_at?: number;
+  token?: string;
+}
+
+/**
+ * A short-lived Copilot API token and the API endpoint it is valid for.
+ * `expiresAt` is in milliseconds since the epoch.
+ */
+interface CopilotToken {
+  baseURL: string;
+  expiresAt: number;
+  token: string;
+}
+
+/**
+ * An exchange that rejected the OAuth token, at `rejectedAt` (milliseconds
+ * since the epoch).
+ */
+interface RejectedExchange {
+  rejectedAt: number;
 }
 
 // ── Constants ──────────────────────────────────────────────────────────
 
 const COPILOT_AUTH_KEY = "github-copilot";
+const GITHUB_DOMAIN = "github.com";
+const TOKEN_EXCHANGE_PATH = "/copilot_internal/v2/token";
 const HTTP_PREFIX = "http://";
 const HTTPS_PREFIX = "https://";
 const STRIP_LAST_CHAR = -1;
 const STRING_START = 0;
+const MS_PER_SECOND = 1000;
+// Exchange again this long before the Copilot token expires.
+const EXPIRY_MARGIN_MS = 60_000;
+// Try the exchange again this long after it rejected a token, in case
+// Copilot access was granted since.
+const REJECTION_RETRY_MS = 300_000;
+const STATUS_UNAUTHORIZED = 401;
+const STATUS_FORBIDDEN = 403;
+const STATUS_NOT_FOUND = 404;
+/**
+ * Exchange statuses meaning the OAuth token cannot be exchanged (e.g. it
+ * belongs to an OAuth app without Copilot token access). Such tokens are
+ * sent to the Copilot API directly, as they were before the exchange.
+ */
+const EXCHANGE_REJECTED_STATUSES = new Set([
+  STATUS_UNAUTHORIZED,
+  STATUS_FORBIDDEN,
+  STATUS_NOT_FOUND,
+]);
+
+/**
+ * Copilot tokens by the GitHub domain and token they were exchanged for,
+ * or when the exchange rejected the token.
+ */
+const TOKEN_CACHE = new Map<string, CopilotToken | RejectedExchange>();
 
 // ── Helpers ────────────────────────────────────────────────────────────
 
@@ -39,15 +94,8 @@ const normalizeDomain = (value: string): string => {
   return stripped.endsWith("/") ? stripped.slice(STRING_START, STRIP_LAST_CHAR) : stripped;
 };
 
-const buildCopilotBaseURL = (enterpriseUrl: string | undefined): string => {
-  if (!enterpriseUrl) {
-    return COPILOT_DEFAULT_BASE_URL;
-  }
-
-  const domain = normalizeDomain(enterpriseUrl);
-
-  return domain ? `https://copilot-api.${domain}` : COPILOT_DEFAULT_BASE_URL;
-};
+const buildCopilotBaseURL = (domain: string): string =>
+  domain === GITHUB_DOMAIN ? COPILOT_DEFAULT_BASE_URL : `https://copilot-api.${domain}`;
 
 const buildCredentials = (entry: CopilotAuthEntry): CopilotCredentials | null => {
   if (entry.type !== "oauth") {
@@ -58,12 +106,114 @@ const buildCredentials = (entry: CopilotAuthEntry): CopilotCredentials | null =>
     return null;
   }
 
+  const githubDomain =
+    (entry.enterpriseUrl && normalizeDomain(entry.enterpriseUrl)) || GITHUB_DOMAIN;
+
   return {
     apiKey: entry.refresh,
-    baseURL: buildCopilotBaseURL(entry.enterpriseUrl),
+    baseURL: buildCopilotBaseURL(githubDomain),
+    githubDomain,
+  };
+};
+
+// ── Token exchange ─────────────────────────────────────────────────────
+
+const throwExchangeError = async (response: Response): Promise<never> => {
+  const text = await response.text();
+  const error = Object.assign(new Error(`token exchange failed: ${text || "no body"}`), {
+    headers: response.headers,
+    status: response.status,
+  });
+
+  throw error;
+};
+
+/**
+ * Exchange a GitHub OAuth token for a Copilot API token. The exchange
+ * also names the API endpoint to use, which differs per plan and for
+ * GitHub Enterprise hosts.
+ */
+const exchangeToken = async (
+  githubToken: string,
+  githubDomain: string,
+  signal: AbortSignal,
+): Promise<CopilotToken> => {
+  const response = await fetch(`https://api.${githubDomain}${TOKEN_EXCHANGE_PATH}`, {
+    headers: {
+      Accept: "application/json",
+      Authorization: `token ${githubToken}`,
+      "User-Agent": COPILOT_USER_AGENT,
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    return throwExchangeError(response);
+  }
+
+  const body = (await response.json()) as CopilotTokenResponse;
+  if (!body.token || typeof body.expires_at !== "number") {
+    throw new Error("token exchange returned no token");
+  }
+
+  return {
+    baseURL: body.endpoints?.api ?? buildCopilotBaseURL(githubDomain),
+    expiresAt: body.expires_at * MS_PER_SECOND,
+    token: body.token,
   };
 };
 
+/**
+ * Exchange the token, or return `null` when the exchange rejects it.
+ */
+const exchangeOrReject = async (
+  githubToken: string,
+  githubDomain: string,
+  signal: AbortSignal,
+): Promise<CopilotToken | null> => {
+  try {
+    return await withRetry(async () => exchangeToken(githubToken, githubDomain, signal), signal);
+  } catch (error) {
+    const status = getErrorStatus(error);
+    if (status === null || !EXCHANGE_REJECTED_STATUSES.has(status)) {
+      throw error;
+    }
+
+    return null;
+  }
+};
+
+const isFresh = (cached: CopilotToken | RejectedExchange, now: number): boolean =>
+  "rejectedAt" in cached
+    ? now - cached.rejectedAt < REJECTION_RETRY_MS
+    : cached.expiresAt - EXPIRY_MARGIN_MS > now;
+
+/**
+ * The cached Copilot token for `config`, exchanged again when it is about
+ * to expire or `force` is set. `null` when the exchange rejected the
+ * OAuth token; a rejection is retried after `REJECTION_RETRY_MS`, or
+ * right away when `force` is set.
+ */
+const getCopilotToken = async (
+  config: SearchConfig,
+  githubDomain: string,
+  signal: AbortSignal,
+  force: boolean,
+): Promise<CopilotToken | null> => {
+  const key = `${githubDomain}\n${config.apiKey}`;
+  const cached = TOKEN_CACHE.get(key);
+  if (cached && !force && isFresh(cached, Date.now())) {
+    return "rejectedAt" in cached ? null : cached;
+  }
+
+  const token = await exchangeOrReject(config.apiKey, githubDomain, signal);
+  TOKEN_CACHE.set(key, token ?? { rejectedAt: Date.now() });
+
+  return token;
+};
+
+// ── Public API ─────────────────────────────────────────────────────────
+
 const resolveCopilotCredentials = async (
   client: PathClient,
   directory: string,
@@ -73,4 +223,37 @@ const resolveCopilotCredentials = async (
   return entry ? buildCredentials(entry) : null;
 };
 
-export { resolveCopilotCredentials };
+/**
+ * Run `search` against the Copilot API. OAuth credentials are exchanged
+ * for a Copilot token and endpoint first; when the API rejects the token
+ * with a 401, it is exchanged again and the search retried once. When the
+ * exchange rejects the OAuth token, it is used directly with the default
+ * endpoint. Configured API keys (e.g. for a Copilot proxy) are used as
+ * they are.
+ */
+const withCopilotToken = async <Result>(
+  config: SearchConfig,
+  signal: AbortSignal,
+  search: (config: SearchConfig) => Promise<Result>,
+): Promise<Result> => {
+  const { githubDomain } = config;
+  if (!githubDomain) {
+    return search(config);
+  }
+
+  const run = async (token: CopilotToken | null): Promise<Result> =>
+    token ? search({ ...config, apiKey: token.token, baseURL: token.baseURL }) : search(config);
+
+  const token = await getCopilotToken(config, githubDomain, signal, false);
+  try {
+    return await run(token);
+  } catch (error) {
+    if (!token || getErrorStatus(error) !== STATUS_UNAUTHORIZED || signal.aborted) {
+      throw error;
+    }
+
+    return run(await getCopilotToken(config, githubDomain, signal, true));
+  }
+};
+
+export { resolveCopilotCredentials, withCopilotToken };
@@ -1,25 +1,25 @@
 import {
+  buildResponsesToolFields,
+  buildResponsesUsage,
+  collectCitationSpans,
+  collectSearchActions,
   collectUniqueAnnotationAndSourceHits,
   createOpenAICompatibleClient,
   resolveOutputText,
 } from "../shared/openai-compatible.js";
-import {
-  MAX_RESPONSE_TOKENS,
-  SEARCH_SYSTEM_PROMPT,
-  buildSearchInput,
-  buildStructuredResponse,
-} from "../shared/search.js";
-import { formatUnhandledSearchError } from "../shared/errors.js";
+import { buildSearchInput, buildStructuredResponse } from "../shared/search.js";
+import { formatUnhandledSearchError, getErrorStatus } from "../shared/errors.js";
+import { withRetry } from "../shared/retry.js";
 import OpenAI, { APIError } from "openai";
-import { SearchConfig } from "../../types.js";
+import { SearchConfig, StructuredSearchResponse } from "../../types.js";
 import { COPILOT_INITIATOR, COPILOT_INTENT, COPILOT_USER_AGENT } from "./constants.js";
+import { withCopilotToken } from "./auth.js";
 
 // ── Constants ──────────────────────────────────────────────────────────
 
 const WEB_SEARCH_INCLUDE: OpenAI.Responses.ResponseIncludable[] = [
   "web_search_call.action.sources",
 ];
-const WEB_SEARCH_TOOL: OpenAI.Responses.WebSearchTool = { type: "web_search" };
 
 // ── Error formatting ───────────────────────────────────────────────────
 
@@ -28,33 +28,60 @@ const formatErrorMessage = (error: unknown): string => {
     return `GitHub Copilot API error: ${error.message} (status: ${error.status})`;
   }
 
+  const status = getErrorStatus(error);
+  if (error instanceof Error && status !== null) {
+    return `GitHub Copilot error: ${error.message} (status: ${status})`;
+  }
+
   return formatUnhandledSearchError(error);
 };
 
 // ── Client and execution ───────────────────────────────────────────────
 
-const executeSearch = async (config: SearchConfig, query: string): Promise<string> => {
+const searchWithToken = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
   const client = createOpenAICompatibleClient(config, {
     "Openai-Intent": COPILOT_INTENT,
     "User-Agent": COPILOT_USER_AGENT,
     "x-initiator": COPILOT_INITIATOR,
   });
 
-  const response = await client.responses.create({
-    include: WEB_SEARCH_INCLUDE,
-    input: buildSearchInput(query),
-    instructions: SEARCH_SYSTEM_PROMPT,
-    max_output_tokens: MAX_RESPONSE_TOKENS,
-    model: config.model,
-    tool_choice: "auto",
-    tools: [WEB_SEARCH_TOOL],
-  });
+  const response = await withRetry(
+    async () =>
+      client.responses.create(
+        {
+          include: WEB_SEARCH_INCLUDE,
+          input: buildSearchInput(config.instructions.prompt, { language: config.language }),
+          instructions: config.instructions.system,
+          max_output_tokens: config.tuning.maxTokens,
+          model: config.model,
+          ...buildResponsesToolFields(config),
+        },
+        { signal },
+      ),
+    signal,
+  );
 
   const outputText = resolveOutputText(response.output_text, response.output);
   const hits = collectUniqueAnnotationAndSourceHits(response.output);
-  const structured = buildStructuredResponse(query, outputText, hits);
+  const spans = collectCitationSpans(response.output);
+  const actions = collectSearchActions(response.output);
+
+  const usage = buildResponsesUsage(response.usage, actions);
 
-  return JSON.stringify(structured);
+  return buildStructuredResponse(query, outputText, hits, { actions, spans, usage });
 };
 
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> =>
+  withCopilotToken(config, signal, async (tokenConfig) =>
+    searchWithToken(tokenConfig, query, signal),
+  );
+
 export { executeSearch, formatErrorMessage };
@@ -0,0 +1,125 @@
+import {
+  buildBackendHit,
+  buildBackendResponse,
+  fetchBackendJSON,
+  formatBackendError,
+} from "../shared/backend.js";
+import { SearchConfig, SearchRecency, StructuredSearchResponse } from "../../types.js";
+import { EMPTY_LENGTH } from "../shared/search.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface ExaSearchRequest {
+  contents: { text: { maxCharacters: number } };
+  excludeDomains?: string[];
+  includeDomains?: string[];
+  numResults: number;
+  query: string;
+  startPublishedDate?: string;
+  userLocation?: string;
+}
+
+interface ExaResult {
+  publishedDate?: string | null;
+  text?: string;
+  title?: string | null;
+  url?: string;
+}
+
+interface ExaResponse {
+  results?: ExaResult[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const EXA_DEFAULT_BASE_URL = "https://api.exa.ai";
+// Exa returns at most 100 results per request.
+const MAX_RESULTS = 100;
+// Page text kept per result as its snippet.
+const SNIPPET_CHARACTERS = 500;
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = 86_400_000;
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_MONTH = 30;
+const DAYS_PER_YEAR = 365;
+const RECENCY_MS: Record<SearchRecency, number> = {
+  day: MS_PER_DAY,
+  hour: MS_PER_HOUR,
+  month: DAYS_PER_MONTH * MS_PER_DAY,
+  week: DAYS_PER_WEEK * MS_PER_DAY,
+  year: DAYS_PER_YEAR * MS_PER_DAY,
+};
+const COUNTRY_CODE_PATTERN = /^[a-z]{2}$/i;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => formatBackendError("Exa", error);
+
+// ── Request helpers ────────────────────────────────────────────────────
+
+/**
+ * Domains are passed natively and the recency becomes a publication
+ * cut-off date. Exa takes the location's country but no language.
+ */
+const buildRequestBody = (config: SearchConfig, query: string): ExaSearchRequest => {
+  const body: ExaSearchRequest = {
+    contents: { text: { maxCharacters: SNIPPET_CHARACTERS } },
+    numResults: Math.min(config.tuning.maxResults, MAX_RESULTS),
+    query,
+  };
+
+  if (config.domains.allowed.length > EMPTY_LENGTH) {
+    body.includeDomains = config.domains.allowed;
+  }
+
+  if (config.domains.blocked.length > EMPTY_LENGTH) {
+    body.excludeDomains = config.domains.blocked;
+  }
+
+  if (config.tuning.searchRecency) {
+    body.startPublishedDate = new Date(
+      Date.now() - RECENCY_MS[config.tuning.searchRecency],
+    ).toISOString();
+  }
+
+  const country = config.location?.country;
+  if (country && COUNTRY_CODE_PATTERN.test(country)) {
+    body.userLocation = country.toUpperCase();
+  }
+
+  return body;
+};
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const response = await fetchBackendJSON<ExaResponse>(
+    config,
+    `${(config.baseURL ?? EXA_DEFAULT_BASE_URL).replace(/\/$/, "")}/search`,
+    {
+      body: JSON.stringify(buildRequestBody(config, query)),
+      headers: { "Content-Type": "application/json", "x-api-key": config.apiKey },
+      method: "POST",
+    },
+    signal,
+  );
+
+  const hits = (response.results ?? []).flatMap((result) =>
+    result.url
+      ? [
+          buildBackendHit(result.url, result.title, {
+            date: result.publishedDate,
+            snippet: result.text?.trim(),
+          }),
+        ]
+      : [],
+  );
+
+  return buildBackendResponse(query, config, hits);
+};
+
+export { executeSearch, formatErrorMessage };
@@ -0,0 +1,293 @@
+import {
+  buildSearchInput,
+  buildStructuredResponse,
+  CitationSpan,
+  EMPTY_LENGTH,
+  isHostAllowed,
+  normalizeDomains,
+} from "../shared/search.js";
+import {
+  DomainFilter,
+  SearchAction,
+  SearchConfig,
+  SearchHit,
+  SearchUsage,
+  StructuredSearchResponse,
+} from "../../types.js";
+import { Deadline, createDeadline, resolveTimeoutError } from "../shared/timeout.js";
+import { formatUnhandledSearchError } from "../shared/errors.js";
+import { withRetry } from "../shared/retry.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface GeminiErrorBody {
+  error?: { message?: string; status?: string };
+}
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+}
+
+interface GeminiGroundingChunk {
+  web?: { domain?: string; title?: string; uri?: string };
+}
+
+interface GeminiGroundingSupport {
+  groundingChunkIndices?: number[];
+  segment?: { text?: string };
+}
+
+interface GeminiGroundingMetadata {
+  groundingChunks?: GeminiGroundingChunk[];
+  groundingSupports?: GeminiGroundingSupport[];
+  webSearchQueries?: string[];
+}
+
+interface GeminiCandidate {
+  content?: { parts?: GeminiPart[] };
+  groundingMetadata?: GeminiGroundingMetadata;
+}
+
+interface GeminiUsageMetadata {
+  candidatesTokenCount?: number;
+  promptTokenCount?: number;
+  thoughtsTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+}
+
+interface GeminiResponse {
+  candidates?: GeminiCandidate[];
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+/**
+ * A grounding chunk as a search hit, or `null` when it falls outside the
+ * domain filter.
+ */
+type GroundingSource = SearchHit | null;
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const GEMINI_DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+const USER_ROLE = "user";
+const NO_TOKENS = 0;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => {
+  if (error instanceof Error && "status" in error && typeof error.status === "number") {
+    return `Gemini API error: ${error.message} (status: ${error.status})`;
+  }
+
+  return formatUnhandledSearchError(error);
+};
+
+// ── Request helpers ────────────────────────────────────────────────────
+
+const resolveGenerateContentURL = (baseURL: string | undefined, model: string): string => {
+  const resolvedBaseURL = (baseURL ?? GEMINI_DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  return `${resolvedBaseURL}/models/${encodeURIComponent(model)}:generateContent`;
+};
+
+/**
+ * The `google_search` tool takes no location, language or domain
+ * parameters, so all three are folded into the search prompt.
+ */
+const buildRequestBody = (config: SearchConfig): Record<string, unknown> => ({
+  contents: [
+    {
+      parts: [
+        {
+          text: buildSearchInput(config.instructions.prompt, {
+            domains: config.domains,
+            language: config.language,
+            location: config.location,
+          }),
+        },
+      ],
+      role: USER_ROLE,
+    },
+  ],
+  generationConfig: { maxOutputTokens: config.tuning.maxTokens },
+  systemInstruction: { parts: [{ text: config.instructions.system }] },
+  tools: config.withoutSearch ? [] : [{ google_search: {} }],
+});
+
+const parseErrorBody = (text: string): string => {
+  if (text.length === EMPTY_LENGTH) {
+    return "no body";
+  }
+
+  try {
+    const parsed = JSON.parse(text) as GeminiErrorBody;
+    const message = parsed.error?.message;
+
+    return typeof message === "string" && message.length > EMPTY_LENGTH ? message : text;
+  } catch {
+    return text;
+  }
+};
+
+const throwAPIError = async (response: Response): Promise<never> => {
+  const text = await response.text();
+  const error = Object.assign(new Error(parseErrorBody(text)), {
+    headers: response.headers,
+    status: response.status,
+  });
+
+  throw error;
+};
+
+/**
+ * Send the `generateContent` request, throwing a status-carrying error
+ * for non-2xx responses so the shared retry policy can classify it.
+ * `connect` is armed until the response headers arrive.
+ */
+const requestContent = async (
+  config: SearchConfig,
+  signal: AbortSignal,
+  connect: Deadline,
+): Promise<GeminiResponse> => {
+  connect.start();
+  const response = await fetch(resolveGenerateContentURL(config.baseURL, config.model), {
+    body: JSON.stringify(buildRequestBody(config)),
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": config.apiKey,
+    },
+    method: "POST",
+    signal,
+  }).finally(connect.clear);
+
+  if (!response.ok) {
+    return throwAPIError(response);
+  }
+
+  return (await response.json()) as GeminiResponse;
+};
+
+// ── Response mapping ───────────────────────────────────────────────────
+
+const collectOutputText = (candidate: GeminiCandidate | undefined): string =>
+  (candidate?.content?.parts ?? [])
+    .filter((part) => !part.thought && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("");
+
+/**
+ * Grounding chunk URIs are Google redirect links, so the domain filter is
+ * checked against the chunk's reported domain (or its title, which the
+ * Gemini API sets to the source domain).
+ */
+const toGroundingSource = (chunk: GeminiGroundingChunk, domains: DomainFilter): GroundingSource => {
+  const { web } = chunk;
+  if (!web?.uri) {
+    return null;
+  }
+
+  const [domain] = normalizeDomains([web.domain ?? web.title ?? ""]);
+  if (!isHostAllowed(domain ?? null, domains)) {
+    return null;
+  }
+
+  return { title: web.title ?? web.uri, url: web.uri };
+};
+
+const collectHits = (sources: GroundingSource[]): SearchHit[] => {
+  const seen = new Set<string>();
+
+  return sources.filter((source): source is SearchHit => {
+    if (!source || seen.has(source.url)) {
+      return false;
+    }
+
+    seen.add(source.url);
+    return true;
+  });
+};
+
+/**
+ * Map grounding supports to citation spans: each supported segment of
+ * the answer cites the grounding chunks it lists.
+ */
+const collectSpans = (
+  supports: GeminiGroundingSupport[],
+  sources: GroundingSource[],
+): CitationSpan[] =>
+  supports.flatMap((support) => {
+    const text = support.segment?.text;
+    if (!text) {
+      return [];
+    }
+
+    return (support.groundingChunkIndices ?? []).flatMap((index) => {
+      const source = sources[index];
+      return source ? [{ text, title: source.title, url: source.url }] : [];
+    });
+  });
+
+const buildUsage = (
+  usage: GeminiUsageMetadata | undefined,
+  actions: SearchAction[],
+): SearchUsage | undefined => {
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    inputTokens:
+      (usage.promptTokenCount ?? NO_TOKENS) + (usage.toolUsePromptTokenCount ?? NO_TOKENS),
+    outputTokens:
+      (usage.candidatesTokenCount ?? NO_TOKENS) + (usage.thoughtsTokenCount ?? NO_TOKENS),
+    searches: actions.length,
+  };
+};
+
+const mapResponse = (
+  query: string,
+  response: GeminiResponse,
+  domains: DomainFilter,
+): StructuredSearchResponse => {
+  const [candidate] = response.candidates ?? [];
+  const metadata = candidate?.groundingMetadata ?? {};
+  const sources = (metadata.groundingChunks ?? []).map((chunk) =>
+    toGroundingSource(chunk, domains),
+  );
+  const actions = (metadata.webSearchQueries ?? []).map(
+    (searched): SearchAction => ({ query: searched, type: "search" }),
+  );
+
+  return buildStructuredResponse(query, collectOutputText(candidate), collectHits(sources), {
+    actions,
+    spans: collectSpans(metadata.groundingSupports ?? [], sources),
+    usage: buildUsage(response.usageMetadata, actions),
+  });
+};
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const connect = createDeadline("connect", config.timeouts.connectMs);
+  const requestSignal = AbortSignal.any([signal, connect.signal]);
+
+  try {
+    const response = await withRetry(
+      async () => requestContent(config, requestSignal, connect),
+      requestSignal,
+    );
+
+    return mapResponse(query, response, config.domains);
+  } catch (error) {
+    throw resolveTimeoutError(error, config.timeouts, [connect]);
+  } finally {
+    connect.clear();
+  }
+};
+
+export { executeSearch, formatErrorMessage };
@@ -1,8 +1,26 @@
-import { ProviderType, SearchConfig } from "../types.js";
+import {
+  AdapterType,
+  ProviderAdapter,
+  ProviderType,
+  SearchAdapter,
+  SearchConfig,
+  StructuredSearchResponse,
+} from "../types.js";
+import { filterResponseHits } from "./shared/search.js";
+import { formatUnhandledSearchError } from "./shared/errors.js";
+import { withTotalTimeout } from "./shared/timeout.js";
 import {
   executeSearch as executeAnthropicSearch,
   formatErrorMessage as formatAnthropicError,
 } from "./anthropic/index.js";
+import {
+  executeSearch as executeAzureSearch,
+  formatErrorMessage as formatAzureError,
+} from "./azure/index.js";
+import {
+  executeSearch as executeBraveSearch,
+  formatErrorMessage as formatBraveError,
+} from "./brave/index.js";
 import {
   executeSearch as executeChatGPTSearch,
   formatErrorMessage as formatChatGPTError,
@@ -11,6 +29,14 @@ import {
   executeSearch as executeCopilotSearch,
   formatErrorMessage as formatCopilotError,
 } from "./copilot/index.js";
+import {
+  executeSearch as executeExaSearch,
+  formatErrorMessage as formatExaError,
+} from "./exa/index.js";
+import {
+  executeSearch as executeGeminiSearch,
+  formatErrorMessage as formatGeminiError,
+} from "./gemini/index.js";
 import {
   executeSearch as executeMoonshotSearch,
   formatErrorMessage as formatMoonshotError,
@@ -19,13 +45,26 @@ import {
   executeSearch as executeOpenAISearch,
   formatErrorMessage as formatOpenAIError,
 } from "./openai/index.js";
-
-// ── Types ──────────────────────────────────────────────────────────────
-
-interface ProviderAdapter {
-  executeSearch: (config: SearchConfig, query: string) => Promise<string>;
-  formatErrorMessage: (error: unknown) => string;
-}
+import {
+  executeSearch as executeOpenRouterSearch,
+  formatErrorMessage as formatOpenRouterError,
+} from "./openrouter/index.js";
+import {
+  executeSearch as executePerplexitySearch,
+  formatErrorMessage as formatPerplexityError,
+} from "./perplexity/index.js";
+import {
+  executeSearch as executeSearxngSearch,
+  formatErrorMessage as formatSearxngError,
+} from "./searxng/index.js";
+import {
+  executeSearch as executeTavilySearch,
+  formatErrorMessage as formatTavilyError,
+} from "./tavily/index.js";
+import {
+  executeSearch as executeXAISearch,
+  formatErrorMessage as formatXAIError,
+} from "./xai/index.js";
 
 // ── Provider map ───────────────────────────────────────────────────────
 
@@ -34,6 +73,15 @@ const PROVIDER_ADAPTERS: Record<ProviderType, ProviderAdapter> = {
     executeSearch: executeAnthropicSearch,
     formatErrorMessage: formatAnthropicError,
   },
+  azure: {
+    executeSearch: executeAzureSearch,
+    formatErrorMessage: formatAzureError,
+  },
+  brave: {
+    executeSearch: executeBraveSearch,
+    filtersDomains: true,
+    formatErrorMessage: formatBraveError,
+  },
   chatgpt: {
     executeSearch: executeChatGPTSearch,
     formatErrorMessage: formatChatGPTError,
@@ -42,6 +90,16 @@ const PROVIDER_ADAPTERS: Record<ProviderType, ProviderAdapter> = {
     executeSearch: executeCopilotSearch,
     formatErrorMessage: formatCopilotError,
   },
+  exa: {
+    executeSearch: executeExaSearch,
+    filtersDomains: true,
+    formatErrorMessage: formatExaError,
+  },
+  gemini: {
+    executeSearch: executeGeminiSearch,
+    filtersDomains: true,
+    formatErrorMessage: formatGeminiError,
+  },
   moonshot: {
     executeSearch: executeMoonshotSearch,
     formatErrorMessage: formatMoonshotError,
@@ -50,17 +108,101 @@ const PROVIDER_ADAPTERS: Record<ProviderType, ProviderAdapter> = {
     executeSearch: executeOpenAISearch,
     formatErrorMessage: formatOpenAIError,
   },
+  openrouter: {
+    executeSearch: executeOpenRouterSearch,
+    formatErrorMessage: formatOpenRouterError,
+  },
+  perplexity: {
+    executeSearch: executePerplexitySearch,
+    formatErrorMessage: formatPerplexityError,
+  },
+  searxng: {
+    executeSearch: executeSearxngSearch,
+    filtersDomains: true,
+    formatErrorMessage: formatSearxngError,
+  },
+  tavily: {
+    executeSearch: executeTavilySearch,
+    filtersDomains: true,
+    formatErrorMessage: formatTavilyError,
+  },
+  xai: {
+    executeSearch: executeXAISearch,
+    formatErrorMessage: formatXAIError,
+  },
 };
 
+// ── Registration ───────────────────────────────────────────────────────
+
+/**
+ * The external adapters from one settings load, keyed by their `id`.
+ * Every load builds its own registry, so a reload or another project's
+ * plugin instance never changes the adapters a search runs with.
+ */
+type AdapterRegistry = ReadonlyMap<string, ProviderAdapter>;
+
+const isBuiltInType = (type: AdapterType): type is ProviderType =>
+  Object.hasOwn(PROVIDER_ADAPTERS, type);
+
+/**
+ * Build the registry of external adapters. Built-in types cannot be
+ * replaced; a later adapter with the same `id` replaces an earlier one.
+ */
+const createAdapterRegistry = (adapters: SearchAdapter[]): AdapterRegistry =>
+  new Map(
+    adapters
+      .filter((adapter) => !isBuiltInType(adapter.id))
+      .map((adapter): [string, ProviderAdapter] => [adapter.id, adapter]),
+  );
+
+const findAdapter = (type: AdapterType, registry: AdapterRegistry): ProviderAdapter | undefined =>
+  isBuiltInType(type) ? PROVIDER_ADAPTERS[type] : registry.get(type);
+
 // ── Dispatch ───────────────────────────────────────────────────────────
 
+/**
+ * Run a search through the adapter for `providerType`. Hits are
+ * post-filtered against `config.domains` unless the adapter filters them
+ * itself, for providers that cannot enforce (all of) the domain filter
+ * natively. Aborting `signal` cancels the adapter's in-flight requests,
+ * as does the total timeout from `config.timeouts`.
+ */
 const dispatchSearch = async (
-  providerType: ProviderType,
+  providerType: AdapterType,
+  registry: AdapterRegistry,
   config: SearchConfig,
   query: string,
-): Promise<string> => PROVIDER_ADAPTERS[providerType].executeSearch(config, query);
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const adapter = findAdapter(providerType, registry);
+  if (!adapter) {
+    throw new Error(`No search adapter is registered for type "${providerType}".`);
+  }
+  const response = await withTotalTimeout(
+    async (scopedSignal) => adapter.executeSearch(config, query, scopedSignal),
+    signal,
+    config.timeouts,
+  );
 
-const dispatchErrorMessage = (providerType: ProviderType, error: unknown): string =>
-  PROVIDER_ADAPTERS[providerType].formatErrorMessage(error);
+  return adapter.filtersDomains ? response : filterResponseHits(response, config.domains);
+};
+
+/**
+ * Format `error` with the adapter for `providerType`, or generically when
+ * no adapter is registered for it.
+ */
+const dispatchErrorMessage = (
+  providerType: AdapterType,
+  registry: AdapterRegistry,
+  error: unknown,
+): string =>
+  findAdapter(providerType, registry)?.formatErrorMessage(error) ??
+  formatUnhandledSearchError(error);
 
-export { dispatchErrorMessage, dispatchSearch };
+export {
+  AdapterRegistry,
+  createAdapterRegistry,
+  dispatchErrorMessage,
+  dispatchSearch,
+  isBuiltInType,
+};
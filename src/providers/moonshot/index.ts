@@ -1,14 +1,11 @@
-import {
-  EMPTY_LENGTH,
-  SEARCH_SYSTEM_PROMPT,
-  buildSearchInput,
-  buildStructuredResponse,
-} from "../shared/search.js";
+import { EMPTY_LENGTH, buildSearchInput, buildStructuredResponse } from "../shared/search.js";
 import OpenAI, { APIError } from "openai";
 
-import { SearchConfig } from "../../types.js";
+import { SearchAction, SearchConfig, SearchUsage, StructuredSearchResponse } from "../../types.js";
 import { formatUnhandledSearchError } from "../shared/errors.js";
+import { withRetry } from "../shared/retry.js";
 import {
+  collectChatCompletionCitationSpans,
   collectUniqueChatCompletionAnnotationHits,
   createOpenAICompatibleClient,
   resolveChatCompletionOutputText,
@@ -22,11 +19,12 @@ interface MoonshotBuiltinFunctionTool {
 }
 
 interface MoonshotChatCompletionRequest {
+  max_tokens: number;
   messages: OpenAI.ChatCompletionMessageParam[];
   model: string;
   thinking: { type: "disabled" };
-  tool_choice: "auto";
-  tools: MoonshotBuiltinFunctionTool[];
+  tool_choice?: "auto";
+  tools?: MoonshotBuiltinFunctionTool[];
 }
 
 interface MoonshotFunctionToolCall {
@@ -35,6 +33,14 @@ interface MoonshotFunctionToolCall {
   name: string;
 }
 
+/**
+ * Searches executed and tokens consumed across all turns of the loop.
+ */
+interface SearchProgress {
+  actions: SearchAction[];
+  usage: SearchUsage;
+}
+
 interface MoonshotToolCallLike {
   function?: {
     arguments?: string;
@@ -46,7 +52,9 @@ interface MoonshotToolCallLike {
 // ── Constants ──────────────────────────────────────────────────────────
 
 const INITIAL_TURN = 0;
-const MAX_SEARCH_TURNS = 8;
+const NO_SEARCHES = 0;
+const NO_TOKENS = 0;
+const SEARCH_INCREMENT = 1;
 const TURN_INCREMENT = 1;
 const TOOL_CALL_FINISH_REASON = "tool_calls";
 const TOOL_ROLE = "tool";
@@ -69,36 +77,49 @@ const formatErrorMessage = (error: unknown): string => {
 
 // ── Request helpers ────────────────────────────────────────────────────
 
-const buildMessages = (query: string): OpenAI.ChatCompletionMessageParam[] => [
+/**
+ * Moonshot's `$web_search` takes no location or language parameters, so
+ * both are folded into the search prompt.
+ */
+const buildMessages = (config: SearchConfig): OpenAI.ChatCompletionMessageParam[] => [
   {
-    content: SEARCH_SYSTEM_PROMPT,
+    content: config.instructions.system,
     role: "system",
   },
   {
-    content: buildSearchInput(query),
+    content: buildSearchInput(config.instructions.prompt, {
+      language: config.language,
+      location: config.location,
+    }),
     role: USER_ROLE,
   },
 ];
 
 const buildRequestBody = (
-  model: string,
+  config: SearchConfig,
   messages: OpenAI.ChatCompletionMessageParam[],
 ): MoonshotChatCompletionRequest => ({
+  max_tokens: config.tuning.maxTokens,
   messages,
-  model,
+  model: config.model,
   thinking: { type: "disabled" },
-  tool_choice: "auto",
-  tools: [WEB_SEARCH_TOOL],
+  ...(config.withoutSearch ? {} : { tool_choice: "auto", tools: [WEB_SEARCH_TOOL] }),
 });
 
 const createCompletion = async (
   client: OpenAI,
-  model: string,
+  config: SearchConfig,
   messages: OpenAI.ChatCompletionMessageParam[],
+  signal: AbortSignal,
 ): Promise<OpenAI.ChatCompletion> =>
-  client.post<OpenAI.ChatCompletion>("/chat/completions", {
-    body: buildRequestBody(model, messages),
-  });
+  withRetry(
+    async () =>
+      client.post<OpenAI.ChatCompletion>("/chat/completions", {
+        body: buildRequestBody(config, messages),
+        signal,
+      }),
+    signal,
+  );
 
 const toMoonshotFunctionToolCall = (
   toolCall: OpenAI.ChatCompletionMessageToolCall,
@@ -188,58 +209,130 @@ const appendToolResultMessage = (
   } as unknown as OpenAI.ChatCompletionMessageParam);
 };
 
+/**
+ * Read the query Moonshot executed from a `$web_search` call's arguments.
+ */
+const toSearchAction = (toolCall: MoonshotFunctionToolCall): SearchAction | null => {
+  if (toolCall.name !== WEB_SEARCH_FUNCTION_NAME) {
+    return null;
+  }
+
+  const parsed = parseToolArguments(toolCall) as { query?: unknown } | null;
+  if (typeof parsed?.query !== "string" || parsed.query.length === EMPTY_LENGTH) {
+    return null;
+  }
+
+  return { query: parsed.query, type: "search" };
+};
+
+/**
+ * Add a turn's token counts to the running usage.
+ */
+const addCompletionUsage = (usage: SearchUsage, completion: OpenAI.ChatCompletion): void => {
+  usage.inputTokens += completion.usage?.prompt_tokens ?? NO_TOKENS;
+  usage.outputTokens += completion.usage?.completion_tokens ?? NO_TOKENS;
+};
+
+/**
+ * The tokens of the search results Moonshot injects for a `$web_search`
+ * call, which it reports in the call's `usage.total_tokens` argument
+ * rather than in the completion's usage.
+ */
+const readSearchTokens = (toolCall: MoonshotFunctionToolCall): number => {
+  const parsed = parseToolArguments(toolCall) as { usage?: { total_tokens?: unknown } } | null;
+  const tokens = parsed?.usage?.total_tokens;
+
+  return typeof tokens === "number" ? tokens : NO_TOKENS;
+};
+
+const recordToolCall = (progress: SearchProgress, toolCall: MoonshotFunctionToolCall): void => {
+  if (toolCall.name === WEB_SEARCH_FUNCTION_NAME) {
+    progress.usage.searches += SEARCH_INCREMENT;
+    progress.usage.inputTokens += readSearchTokens(toolCall);
+  }
+
+  const action = toSearchAction(toolCall);
+  if (action) {
+    progress.actions.push(action);
+  }
+};
+
 // ── Client and execution ───────────────────────────────────────────────
 
-const buildEmptyResponse = (query: string): string =>
-  JSON.stringify(buildStructuredResponse(query, "", []));
+const buildEmptyResponse = (query: string, progress: SearchProgress): StructuredSearchResponse =>
+  buildStructuredResponse(query, "", [], progress);
 
-const buildFinalResponse = (query: string, message: OpenAI.ChatCompletionMessage): string => {
+const buildFinalResponse = (
+  query: string,
+  message: OpenAI.ChatCompletionMessage,
+  progress: SearchProgress,
+): StructuredSearchResponse => {
   const hits = collectUniqueChatCompletionAnnotationHits(message);
   const outputText = resolveChatCompletionOutputText(message);
-  const structured = buildStructuredResponse(query, outputText, hits);
+  const spans = collectChatCompletionCitationSpans(message);
 
-  return JSON.stringify(structured);
+  return buildStructuredResponse(query, outputText, hits, { ...progress, spans });
 };
 
-const buildMaxTurnsResponse = (query: string): string => {
-  const errorText = `Error: Moonshot web search exceeded the maximum of ${MAX_SEARCH_TURNS} tool-call turns without producing a final answer.`;
+const buildMaxTurnsResponse = (
+  query: string,
+  maxTurns: number,
+  progress: SearchProgress,
+): StructuredSearchResponse => {
+  const errorText = `Error: Moonshot web search exceeded the maximum of ${maxTurns} tool-call turns without producing a final answer.`;
 
-  return JSON.stringify(buildStructuredResponse(query, errorText, []));
+  return { ...buildStructuredResponse(query, errorText, [], progress), failed: true };
 };
 
 const runSearchLoop = async (
   client: OpenAI,
-  model: string,
+  config: SearchConfig,
   messages: OpenAI.ChatCompletionMessageParam[],
   query: string,
-): Promise<string> => {
-  for (let turn = INITIAL_TURN; turn < MAX_SEARCH_TURNS; turn += TURN_INCREMENT) {
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const progress: SearchProgress = {
+    actions: [],
+    usage: { inputTokens: NO_TOKENS, outputTokens: NO_TOKENS, searches: NO_SEARCHES },
+  };
+
+  const { maxTurns } = config.tuning;
+
+  for (let turn = INITIAL_TURN; turn < maxTurns; turn += TURN_INCREMENT) {
+    signal.throwIfAborted();
+
     // oxlint-disable-next-line no-await-in-loop -- each turn depends on the previous response
-    const completion = await createCompletion(client, model, messages);
+    const completion = await createCompletion(client, config, messages, signal);
+    addCompletionUsage(progress.usage, completion);
     const [choice] = completion.choices;
     if (!choice) {
-      return buildEmptyResponse(query);
+      return buildEmptyResponse(query, progress);
     }
 
     const toolCalls = extractFunctionToolCalls(choice.message);
     if (choice.finish_reason !== TOOL_CALL_FINISH_REASON || toolCalls.length === EMPTY_LENGTH) {
-      return buildFinalResponse(query, choice.message);
+      return buildFinalResponse(query, choice.message, progress);
     }
 
     appendAssistantToolCallMessage(messages, choice.message);
     for (const toolCall of toolCalls) {
+      recordToolCall(progress, toolCall);
       appendToolResultMessage(messages, toolCall);
     }
   }
 
-  return buildMaxTurnsResponse(query);
+  return buildMaxTurnsResponse(query, maxTurns, progress);
 };
 
-const executeSearch = async (config: SearchConfig, query: string): Promise<string> => {
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
   const client = createOpenAICompatibleClient(config);
-  const messages = buildMessages(query);
+  const messages = buildMessages(config);
 
-  return runSearchLoop(client, config.model, messages, query);
+  return runSearchLoop(client, config, messages, query, signal);
 };
 
 export { executeSearch, formatErrorMessage };
@@ -1,20 +1,16 @@
+import { buildSearchInput, buildStructuredResponse } from "../shared/search.js";
+import { SearchConfig, StructuredSearchResponse } from "../../types.js";
 import {
-  MAX_RESPONSE_TOKENS,
-  SEARCH_SYSTEM_PROMPT,
-  buildSearchInput,
-  buildStructuredResponse,
-} from "../shared/search.js";
-import OpenAI, { APIError } from "openai";
-import { SearchConfig } from "../../types.js";
-import {
+  buildResponsesToolFields,
+  buildResponsesUsage,
+  collectCitationSpans,
+  collectSearchActions,
   collectUniqueAnnotationHits,
   createOpenAICompatibleClient,
 } from "../shared/openai-compatible.js";
+import { APIError } from "openai";
 import { formatUnhandledSearchError } from "../shared/errors.js";
-
-// ── Constants ──────────────────────────────────────────────────────────
-
-const WEB_SEARCH_TOOL: OpenAI.Responses.WebSearchTool = { type: "web_search" };
+import { withRetry } from "../shared/retry.js";
 
 // ── Error formatting ───────────────────────────────────────────────────
 
@@ -28,21 +24,35 @@ const formatErrorMessage = (error: unknown): string => {
 
 // ── Client and execution ───────────────────────────────────────────────
 
-const executeSearch = async (config: SearchConfig, query: string): Promise<string> => {
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
   const client = createOpenAICompatibleClient(config);
 
-  const response = await client.responses.create({
-    input: buildSearchInput(query),
-    instructions: SEARCH_SYSTEM_PROMPT,
-    max_output_tokens: MAX_RESPONSE_TOKENS,
-    model: config.model,
-    tools: [WEB_SEARCH_TOOL],
-  });
+  const response = await withRetry(
+    async () =>
+      client.responses.create(
+        {
+          input: buildSearchInput(config.instructions.prompt, { language: config.language }),
+          instructions: config.instructions.system,
+          max_output_tokens: config.tuning.maxTokens,
+          model: config.model,
+          ...buildResponsesToolFields(config),
+        },
+        { signal },
+      ),
+    signal,
+  );
 
   const hits = collectUniqueAnnotationHits(response.output);
-  const structured = buildStructuredResponse(query, response.output_text, hits);
+  const spans = collectCitationSpans(response.output);
+  const actions = collectSearchActions(response.output);
+
+  const usage = buildResponsesUsage(response.usage, actions);
 
-  return JSON.stringify(structured);
+  return buildStructuredResponse(query, response.output_text, hits, { actions, spans, usage });
 };
 
 export { executeSearch, formatErrorMessage };
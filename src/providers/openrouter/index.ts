@@ -0,0 +1,127 @@
+import { buildSearchInput, buildStructuredResponse } from "../shared/search.js";
+import OpenAI, { APIError } from "openai";
+
+import { SearchConfig, SearchUsage, StructuredSearchResponse } from "../../types.js";
+import {
+  collectChatCompletionCitationSpans,
+  collectUniqueChatCompletionAnnotationHits,
+  createOpenAICompatibleClient,
+  resolveChatCompletionOutputText,
+} from "../shared/openai-compatible.js";
+import { formatUnhandledSearchError } from "../shared/errors.js";
+import { withRetry } from "../shared/retry.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface OpenRouterPlugin {
+  id: "web";
+}
+
+interface OpenRouterChatCompletionRequest {
+  max_tokens: number;
+  messages: OpenAI.ChatCompletionMessageParam[];
+  model: string;
+  plugins?: OpenRouterPlugin[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const OPENROUTER_DEFAULT_BASE_URL = "https://openrouter.ai/api/v1";
+const OPENROUTER_TITLE = "opencode-websearch";
+// A model ID ending in `:online` already has the web plugin enabled.
+const ONLINE_MODEL_SUFFIX = ":online";
+const MODEL_START = 0;
+// The web plugin runs one search per request.
+const PLUGIN_SEARCHES = 1;
+const NO_SEARCHES = 0;
+const NO_TOKENS = 0;
+const USER_ROLE = "user";
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => {
+  if (error instanceof APIError) {
+    return `OpenRouter API error: ${error.message} (status: ${error.status})`;
+  }
+
+  return formatUnhandledSearchError(error);
+};
+
+// ── Request helpers ────────────────────────────────────────────────────
+
+/**
+ * The web plugin takes no location, language or domain parameters, so
+ * location and language are folded into the search prompt and domains
+ * are enforced by post-filtering the returned hits. A summary call
+ * drops the plugin, and the `:online` suffix that implies it.
+ */
+const buildRequestBody = (config: SearchConfig): OpenRouterChatCompletionRequest => {
+  const body: OpenRouterChatCompletionRequest = {
+    max_tokens: config.tuning.maxTokens,
+    messages: [
+      { content: config.instructions.system, role: "system" },
+      {
+        content: buildSearchInput(config.instructions.prompt, {
+          language: config.language,
+          location: config.location,
+        }),
+        role: USER_ROLE,
+      },
+    ],
+    model: config.model,
+  };
+
+  const online = config.model.endsWith(ONLINE_MODEL_SUFFIX);
+  if (config.withoutSearch && online) {
+    body.model = config.model.slice(MODEL_START, -ONLINE_MODEL_SUFFIX.length);
+  } else if (!config.withoutSearch && !online) {
+    body.plugins = [{ id: "web" }];
+  }
+
+  return body;
+};
+
+const buildUsage = (config: SearchConfig, completion: OpenAI.ChatCompletion): SearchUsage => ({
+  inputTokens: completion.usage?.prompt_tokens ?? NO_TOKENS,
+  outputTokens: completion.usage?.completion_tokens ?? NO_TOKENS,
+  searches: config.withoutSearch ? NO_SEARCHES : PLUGIN_SEARCHES,
+});
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const client = createOpenAICompatibleClient(
+    { ...config, baseURL: config.baseURL ?? OPENROUTER_DEFAULT_BASE_URL },
+    { "X-Title": OPENROUTER_TITLE },
+  );
+
+  const completion = await withRetry(
+    async () =>
+      client.post<OpenAI.ChatCompletion>("/chat/completions", {
+        body: buildRequestBody(config),
+        signal,
+      }),
+    signal,
+  );
+
+  const [choice] = completion.choices;
+  if (!choice) {
+    return buildStructuredResponse(query, "", [], { usage: buildUsage(config, completion) });
+  }
+
+  return buildStructuredResponse(
+    query,
+    resolveChatCompletionOutputText(choice.message),
+    collectUniqueChatCompletionAnnotationHits(choice.message),
+    {
+      spans: collectChatCompletionCitationSpans(choice.message),
+      usage: buildUsage(config, completion),
+    },
+  );
+};
+
+export { executeSearch, formatErrorMessage };
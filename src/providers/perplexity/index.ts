@@ -0,0 +1,254 @@
+import {
+  CitationSpan,
+  EMPTY_LENGTH,
+  buildSearchInput,
+  buildStructuredResponse,
+} from "../shared/search.js";
+import OpenAI, { APIError } from "openai";
+
+import {
+  DomainFilter,
+  SearchConfig,
+  SearchHit,
+  SearchRecency,
+  SearchUsage,
+  StructuredSearchResponse,
+} from "../../types.js";
+import {
+  createOpenAICompatibleClient,
+  resolveChatCompletionOutputText,
+} from "../shared/openai-compatible.js";
+import { formatUnhandledSearchError } from "../shared/errors.js";
+import { withRetry } from "../shared/retry.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface PerplexityUserLocation {
+  city?: string;
+  country?: string;
+  region?: string;
+}
+
+interface PerplexityChatCompletionRequest {
+  disable_search?: boolean;
+  max_tokens: number;
+  messages: OpenAI.ChatCompletionMessageParam[];
+  model: string;
+  search_domain_filter?: string[];
+  search_recency_filter?: SearchRecency;
+  web_search_options?: { user_location: PerplexityUserLocation };
+}
+
+interface PerplexitySearchResult {
+  date?: string | null;
+  title?: string;
+  url: string;
+}
+
+/**
+ * Sonar answers are chat completions carrying the sources they searched:
+ * `search_results` with titles and dates, and the bare `citations` URLs
+ * that the answer's `[n]` markers point into.
+ */
+type PerplexityChatCompletion = OpenAI.ChatCompletion & {
+  citations?: string[];
+  search_results?: PerplexitySearchResult[];
+  usage?: OpenAI.CompletionUsage & { num_search_queries?: number };
+};
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const PERPLEXITY_DEFAULT_BASE_URL = "https://api.perplexity.ai";
+// Perplexity rejects domain filters with more than 20 entries.
+const MAX_FILTER_DOMAINS = 20;
+// Every Sonar request runs at least one search.
+const DEFAULT_SEARCHES = 1;
+const NO_SEARCHES = 0;
+const NO_TOKENS = 0;
+const USER_ROLE = "user";
+// A run of `[n]` markers and the spaces before it, e.g. ` [1][3]`.
+const MARKER_GROUP_PATTERN = /[ \t]*((?:\[\d+\])+)/g;
+const MARKER_NUMBER_PATTERN = /\d+/g;
+const FIRST_MARKER_NUMBER = 1;
+const LINE_START_OFFSET = 1;
+// What the previous sentence leaves before the next cited span.
+const LEADING_PUNCTUATION_PATTERN = /^[\s.,;:!?]+/;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => {
+  if (error instanceof APIError) {
+    return `Perplexity API error: ${error.message} (status: ${error.status})`;
+  }
+
+  return formatUnhandledSearchError(error);
+};
+
+// ── Request helpers ────────────────────────────────────────────────────
+
+/**
+ * Allowed domains as-is, blocked ones prefixed with `-`. A filter over
+ * Perplexity's limit is left to post-filtering instead.
+ */
+const buildDomainFilter = (domains: DomainFilter): string[] | undefined => {
+  const filter = [...domains.allowed, ...domains.blocked.map((domain) => `-${domain}`)];
+
+  return filter.length > EMPTY_LENGTH && filter.length <= MAX_FILTER_DOMAINS ? filter : undefined;
+};
+
+/**
+ * Perplexity has no language parameter, so the language is folded into
+ * the search prompt; the location is passed natively (without timezone).
+ * A summary call disables the search Sonar models otherwise always run.
+ */
+const buildRequestBody = (config: SearchConfig): PerplexityChatCompletionRequest => {
+  const body: PerplexityChatCompletionRequest = {
+    max_tokens: config.tuning.maxTokens,
+    messages: [
+      { content: config.instructions.system, role: "system" },
+      {
+        content: buildSearchInput(config.instructions.prompt, { language: config.language }),
+        role: USER_ROLE,
+      },
+    ],
+    model: config.model,
+  };
+
+  if (config.withoutSearch) {
+    body.disable_search = true;
+  }
+
+  const domainFilter = buildDomainFilter(config.domains);
+  if (domainFilter) {
+    body.search_domain_filter = domainFilter;
+  }
+
+  if (config.tuning.searchRecency) {
+    body.search_recency_filter = config.tuning.searchRecency;
+  }
+
+  if (config.location) {
+    const { city, country, region } = config.location;
+    body.web_search_options = { user_location: { city, country, region } };
+  }
+
+  return body;
+};
+
+// ── Response mapping ───────────────────────────────────────────────────
+
+/**
+ * The sources the answer's `[n]` markers number: `search_results`,
+ * falling back to the bare `citations` URLs for models that do not
+ * return them.
+ */
+const listSources = (completion: PerplexityChatCompletion): PerplexitySearchResult[] =>
+  completion.search_results ?? (completion.citations ?? []).map((url) => ({ url }));
+
+const collectHits = (results: PerplexitySearchResult[]): SearchHit[] => {
+  const seen = new Set<string>();
+  const hits: SearchHit[] = [];
+
+  for (const result of results) {
+    if (seen.has(result.url)) {
+      continue;
+    }
+
+    seen.add(result.url);
+    const hit: SearchHit = { title: result.title ?? result.url, url: result.url };
+    if (result.date) {
+      hit.date = result.date;
+    }
+    hits.push(hit);
+  }
+
+  return hits;
+};
+
+/**
+ * Turn the answer's `[n]` markers into citation spans and strip them from
+ * the text. Each marker group cites the text since the previous one on
+ * its line. Deduplication and domain filtering renumber the hits, so the
+ * markers could otherwise point at the wrong source; a group with a
+ * number outside `sources` (e.g. an index in code) is left as it is.
+ */
+const extractMarkerSpans = (
+  text: string,
+  sources: PerplexitySearchResult[],
+): { spans: CitationSpan[]; text: string } => {
+  const spans: CitationSpan[] = [];
+  let stripped = "";
+  let copiedUpTo = 0;
+
+  for (const match of text.matchAll(MARKER_GROUP_PATTERN)) {
+    const [group, markers = ""] = match;
+    const cited = [...markers.matchAll(MARKER_NUMBER_PATTERN)].map(
+      ([number]) => sources[Number(number) - FIRST_MARKER_NUMBER],
+    );
+    if (cited.some((source) => source === undefined)) {
+      continue;
+    }
+
+    const segment = text.slice(copiedUpTo, match.index);
+    const spanText = segment
+      .slice(segment.lastIndexOf("\n") + LINE_START_OFFSET)
+      .replace(LEADING_PUNCTUATION_PATTERN, "");
+    for (const source of cited as PerplexitySearchResult[]) {
+      spans.push({ text: spanText, title: source.title ?? source.url, url: source.url });
+    }
+
+    stripped += segment;
+    copiedUpTo = match.index + group.length;
+  }
+
+  return { spans, text: stripped + text.slice(copiedUpTo) };
+};
+
+const buildUsage = (config: SearchConfig, completion: PerplexityChatCompletion): SearchUsage => ({
+  inputTokens: completion.usage?.prompt_tokens ?? NO_TOKENS,
+  outputTokens: completion.usage?.completion_tokens ?? NO_TOKENS,
+  searches: config.withoutSearch
+    ? NO_SEARCHES
+    : (completion.usage?.num_search_queries ?? DEFAULT_SEARCHES),
+});
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+/**
+ * The answer's `[n]` markers, which number `search_results`, become
+ * citation spans, so they follow the hits through deduplication and
+ * domain filtering.
+ */
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const client = createOpenAICompatibleClient({
+    ...config,
+    baseURL: config.baseURL ?? PERPLEXITY_DEFAULT_BASE_URL,
+  });
+
+  const completion = await withRetry(
+    async () =>
+      client.post<PerplexityChatCompletion>("/chat/completions", {
+        body: buildRequestBody(config),
+        signal,
+      }),
+    signal,
+  );
+
+  const [choice] = completion.choices;
+  const sources = listSources(completion);
+  const { spans, text } = extractMarkerSpans(
+    choice ? resolveChatCompletionOutputText(choice.message) : "",
+    sources,
+  );
+
+  return buildStructuredResponse(query, text, collectHits(sources), {
+    spans,
+    usage: buildUsage(config, completion),
+  });
+};
+
+export { executeSearch, formatErrorMessage };
@@ -1,4 +1,4 @@
-import { ScannableProviderType } from "../types.js";
+import { AdapterType, BackendProviderType, ScannableProviderType } from "../types.js";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -20,10 +20,15 @@ interface ProviderDataLike {
  */
 const PROVIDER_TYPES_BY_ID: Record<string, ScannableProviderType> = {
   anthropic: "anthropic",
+  azure: "azure",
   "github-copilot": "copilot",
+  google: "gemini",
   moonshotai: "moonshot",
   "moonshotai-cn": "moonshot",
   openai: "openai",
+  openrouter: "openrouter",
+  perplexity: "perplexity",
+  xai: "xai",
 };
 
 /**
@@ -32,14 +37,32 @@ const PROVIDER_TYPES_BY_ID: Record<string, ScannableProviderType> = {
  * as their underlying type with their own credentials and baseURL.
  *
  * Moonshot is intentionally omitted: `@ai-sdk/openai-compatible` is shared
- * by many unrelated providers and cannot be auto-detected by npm alone.
+ * by many unrelated providers and cannot be auto-detected by npm alone;
+ * such providers name their type in `websearch.providers.<id>.type`.
  */
 const NPM_TO_TYPE: Record<string, ScannableProviderType> = {
   "@ai-sdk/anthropic": "anthropic",
+  "@ai-sdk/azure": "azure",
   "@ai-sdk/github-copilot": "copilot",
+  "@ai-sdk/google": "gemini",
   "@ai-sdk/openai": "openai",
+  "@ai-sdk/perplexity": "perplexity",
+  "@ai-sdk/xai": "xai",
+  "@openrouter/ai-sdk-provider": "openrouter",
 };
 
+/**
+ * Map of `websearch.providers` IDs to the search backend they configure.
+ */
+const BACKEND_TYPES_BY_ID: Record<string, BackendProviderType> = {
+  brave: "brave",
+  exa: "exa",
+  searxng: "searxng",
+  tavily: "tavily",
+};
+
+const BACKEND_TYPES = new Set<AdapterType>(Object.values(BACKEND_TYPES_BY_ID));
+
 // ── Helpers ────────────────────────────────────────────────────────────
 
 /**
@@ -67,4 +90,16 @@ const detectProviderType = (provider: ProviderDataLike): ScannableProviderType |
   return null;
 };
 
-export { detectProviderType };
+/**
+ * Identify the search backend configured by `websearch.providers.<id>`,
+ * or `null` when the entry only tunes an LLM provider.
+ */
+const detectBackendType = (providerID: string): BackendProviderType | null =>
+  BACKEND_TYPES_BY_ID[providerID] ?? null;
+
+/**
+ * Whether `type` is a search backend rather than an LLM provider.
+ */
+const isBackendType = (type: AdapterType): type is BackendProviderType => BACKEND_TYPES.has(type);
+
+export { detectBackendType, detectProviderType, isBackendType };
@@ -0,0 +1,111 @@
+import {
+  buildBackendHit,
+  buildBackendResponse,
+  fetchBackendJSON,
+  formatBackendError,
+} from "../shared/backend.js";
+import { SearchConfig, StructuredSearchResponse } from "../../types.js";
+import { EMPTY_LENGTH } from "../shared/search.js";
+import { getErrorStatus } from "../shared/errors.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface SearxngResult {
+  content?: string;
+  engine?: string;
+  publishedDate?: string | null;
+  title?: string;
+  url?: string;
+}
+
+interface SearxngResponse {
+  results?: SearxngResult[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const STATUS_FORBIDDEN = 403;
+// SearXNG only understands language codes such as `sv` or `sv-SE`.
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2}(?:-[a-z]{2})?$/i;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => {
+  const status = getErrorStatus(error);
+  if (status === STATUS_FORBIDDEN) {
+    return `SearXNG API error: the JSON API is disabled (status: ${status}). Add \`json\` to \`search.formats\` in the instance's settings.yml.`;
+  }
+
+  return formatBackendError("SearXNG", error);
+};
+
+// ── Request helpers ────────────────────────────────────────────────────
+
+/**
+ * Build the JSON API URL. SearXNG has no location or domain parameters:
+ * domains are enforced on the returned hits, and the language is only
+ * passed when it is a language code.
+ */
+const buildSearchURL = (config: SearchConfig, query: string): string => {
+  const url = new URL(`${(config.baseURL ?? "").replace(/\/$/, "")}/search`);
+  url.searchParams.set("q", query);
+  url.searchParams.set("format", "json");
+
+  if (config.tuning.engines.length > EMPTY_LENGTH) {
+    url.searchParams.set("engines", config.tuning.engines.join(","));
+  }
+
+  if (config.tuning.categories.length > EMPTY_LENGTH) {
+    url.searchParams.set("categories", config.tuning.categories.join(","));
+  }
+
+  if (config.language && LANGUAGE_CODE_PATTERN.test(config.language)) {
+    url.searchParams.set("language", config.language);
+  }
+
+  return url.toString();
+};
+
+const buildHeaders = (config: SearchConfig): Record<string, string> => {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  return headers;
+};
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+/**
+ * Search a SearXNG instance. The raw hits are returned without a
+ * summary; the query is sent as typed, without the prompt template.
+ */
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const response = await fetchBackendJSON<SearxngResponse>(
+    config,
+    buildSearchURL(config, query),
+    { headers: buildHeaders(config) },
+    signal,
+  );
+
+  const hits = (response.results ?? []).flatMap((result) =>
+    result.url
+      ? [
+          buildBackendHit(result.url, result.title, {
+            date: result.publishedDate,
+            engine: result.engine,
+            snippet: result.content,
+          }),
+        ]
+      : [],
+  );
+
+  return buildBackendResponse(query, config, hits);
+};
+
+export { executeSearch, formatErrorMessage };
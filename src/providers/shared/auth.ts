@@ -5,7 +5,9 @@ import { join, sep } from "node:path";
 
 interface PathClient {
   path: {
-    get: (options?: { query?: { directory?: string } }) => Promise<{ data?: { state?: string } }>;
+    get: (options?: {
+      query?: { directory?: string };
+    }) => Promise<{ data?: { config?: string; state?: string } }>;
   };
 }
 
@@ -79,4 +81,4 @@ const readAuthEntry = async <Entry>(
   return candidate as Entry;
 };
 
-export { PathClient, readAuthEntry };
+export { PathClient, readAuthEntry, resolveAuthPathFromStatePath };
@@ -0,0 +1,147 @@
+import { DomainFilter, SearchConfig, SearchHit, StructuredSearchResponse } from "../../types.js";
+import { EMPTY_LENGTH, buildStructuredResponse, isHitAllowed } from "./search.js";
+import { createDeadline, resolveTimeoutError } from "./timeout.js";
+import { formatUnhandledSearchError, getErrorStatus } from "./errors.js";
+import { withRetry } from "./retry.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * The optional details a search backend reports for a hit.
+ */
+interface BackendHitDetails {
+  date?: string | null;
+  engine?: string;
+  snippet?: string | null;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const FIRST_HIT = 0;
+// A backend request is a single search and uses no model tokens.
+const BACKEND_SEARCHES = 1;
+const NO_TOKENS = 0;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatBackendError = (name: string, error: unknown): string => {
+  const status = getErrorStatus(error);
+  if (error instanceof Error && status !== null) {
+    return `${name} API error: ${error.message} (status: ${status})`;
+  }
+
+  return formatUnhandledSearchError(error);
+};
+
+// ── Requests ───────────────────────────────────────────────────────────
+
+const throwAPIError = async (response: Response): Promise<never> => {
+  const text = await response.text();
+  const error = Object.assign(new Error(text.length > EMPTY_LENGTH ? text : "no body"), {
+    headers: response.headers,
+    status: response.status,
+  });
+
+  throw error;
+};
+
+/**
+ * Send one backend request and parse its JSON body, retrying under the
+ * shared policy. Non-2xx responses become status-carrying errors so the
+ * policy can classify them; the connect deadline is armed until each
+ * attempt's response headers arrive.
+ */
+const fetchBackendJSON = async <Body>(
+  config: SearchConfig,
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal,
+): Promise<Body> => {
+  const connect = createDeadline("connect", config.timeouts.connectMs);
+  const requestSignal = AbortSignal.any([signal, connect.signal]);
+
+  const attempt = async (): Promise<Body> => {
+    connect.start();
+    const response = await fetch(url, { ...init, signal: requestSignal }).finally(connect.clear);
+    if (!response.ok) {
+      return throwAPIError(response);
+    }
+
+    return (await response.json()) as Body;
+  };
+
+  try {
+    return await withRetry(attempt, requestSignal);
+  } catch (error) {
+    throw resolveTimeoutError(error, config.timeouts, [connect]);
+  } finally {
+    connect.clear();
+  }
+};
+
+// ── Response building ──────────────────────────────────────────────────
+
+/**
+ * Build a hit, leaving out the details the backend did not report. A
+ * result without a title is titled by its URL.
+ */
+const buildBackendHit = (
+  url: string,
+  title: string | null | undefined,
+  details: BackendHitDetails = {},
+): SearchHit => {
+  const hit: SearchHit = { title: title || url, url };
+  if (details.snippet) {
+    hit.snippet = details.snippet;
+  }
+  if (details.engine) {
+    hit.engine = details.engine;
+  }
+  if (details.date) {
+    hit.date = details.date;
+  }
+
+  return hit;
+};
+
+/**
+ * Deduplicate the hits and apply the domain filter before capping them
+ * at `maxResults`, so filtered-out results do not take up slots.
+ */
+const collectBackendHits = (
+  hits: SearchHit[],
+  domains: DomainFilter,
+  maxResults: number,
+): SearchHit[] => {
+  const seen = new Set<string>();
+  const kept: SearchHit[] = [];
+
+  for (const hit of hits) {
+    if (!seen.has(hit.url) && isHitAllowed(hit, domains)) {
+      kept.push(hit);
+    }
+    seen.add(hit.url);
+  }
+
+  return kept.slice(FIRST_HIT, maxResults);
+};
+
+/**
+ * A backend response lists the hits without a summary.
+ */
+const buildBackendResponse = (
+  query: string,
+  config: SearchConfig,
+  hits: SearchHit[],
+): StructuredSearchResponse =>
+  buildStructuredResponse(
+    query,
+    "",
+    collectBackendHits(hits, config.domains, config.tuning.maxResults),
+    {
+      actions: [{ query, type: "search" }],
+      usage: { inputTokens: NO_TOKENS, outputTokens: NO_TOKENS, searches: BACKEND_SEARCHES },
+    },
+  );
+
+export { buildBackendHit, buildBackendResponse, fetchBackendJSON, formatBackendError };
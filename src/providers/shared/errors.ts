@@ -1,6 +1,94 @@
+import { APIConnectionError as AnthropicConnectionError } from "@anthropic-ai/sdk";
+import { APIConnectionError as OpenAIConnectionError } from "openai";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * Which timeout fired: waiting for response headers (`connect`), waiting
+ * for the next stream chunk (`idle`), or the whole search (`total`).
+ */
+type TimeoutPhase = "connect" | "idle" | "total";
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const MS_PER_SECOND = 1000;
+
+const STATUS_BAD_REQUEST = 400;
+const STATUS_FORBIDDEN = 403;
+const STATUS_NOT_FOUND = 404;
+const STATUS_REQUEST_TIMEOUT = 408;
+const STATUS_CONFLICT = 409;
+const STATUS_UNPROCESSABLE_ENTITY = 422;
+const STATUS_TOO_MANY_REQUESTS = 429;
+const MIN_SERVER_ERROR_STATUS = 500;
+
+/**
+ * Statuses worth trying again, possibly against another provider:
+ * request timeout, conflict, rate limiting / quota, and server errors.
+ */
+const RETRYABLE_STATUSES = new Set([
+  STATUS_REQUEST_TIMEOUT,
+  STATUS_CONFLICT,
+  STATUS_TOO_MANY_REQUESTS,
+]);
+
+/**
+ * Statuses a provider uses to reject a request it cannot serve, e.g. a
+ * model without web search support. Only treated as a capability failure
+ * when the message points at the model or tool, not at the query.
+ */
+const CAPABILITY_STATUSES = new Set([
+  STATUS_BAD_REQUEST,
+  STATUS_FORBIDDEN,
+  STATUS_NOT_FOUND,
+  STATUS_UNPROCESSABLE_ENTITY,
+]);
+const CAPABILITY_MESSAGE_PATTERN =
+  /model|tool|web[_ ]?search|unsupported|not (?:supported|available|enabled)|quota/i;
+
+/**
+ * Error codes of transient `fetch` network failures. Bun sets the code on
+ * the `TypeError` itself, Node on its `cause`.
+ */
+const NETWORK_ERROR_CODES = new Set([
+  "EAI_AGAIN",
+  "ECONNABORTED",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ENOTFOUND",
+  "EPIPE",
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+// ── Errors ─────────────────────────────────────────────────────────────
+
+/**
+ * Raised when a configured search timeout fires. Treated as retryable,
+ * so failover moves on to the next candidate.
+ */
+class SearchTimeoutError extends Error {
+  readonly phase: TimeoutPhase;
+  readonly timeoutMs: number;
+
+  constructor(phase: TimeoutPhase, timeoutMs: number) {
+    super(`${phase} timeout of ${timeoutMs / MS_PER_SECOND}s exceeded`);
+    this.name = "SearchTimeoutError";
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 // ── Error helpers ──────────────────────────────────────────────────────
 
 const formatUnhandledSearchError = (error: unknown): string => {
+  if (error instanceof SearchTimeoutError) {
+    return `Web search timed out: ${error.message}`;
+  }
+
   if (error instanceof Error) {
     return `Error performing web search: ${error.message}`;
   }
@@ -8,4 +96,73 @@ const formatUnhandledSearchError = (error: unknown): string => {
   return `Error performing web search: ${String(error)}`;
 };
 
-export { formatUnhandledSearchError };
+/**
+ * Read the HTTP status from an SDK `APIError` or the ChatGPT adapter's
+ * status-carrying `Error`. Returns `null` for errors without one (e.g.
+ * network failures).
+ */
+const getErrorStatus = (error: unknown): number | null => {
+  if (error instanceof Error && "status" in error && typeof error.status === "number") {
+    return error.status;
+  }
+
+  return null;
+};
+
+const readErrorCode = (value: unknown): string | null =>
+  typeof value === "object" && value !== null && "code" in value && typeof value.code === "string"
+    ? value.code
+    : null;
+
+// ── Classification ─────────────────────────────────────────────────────
+
+/**
+ * Whether `error` is a `fetch` failure to reach the server (connection
+ * refused or reset, DNS failure, ...).
+ */
+const isNetworkError = (error: unknown): boolean =>
+  error instanceof TypeError &&
+  [readErrorCode(error), readErrorCode(error.cause)].some(
+    (code) => code !== null && NETWORK_ERROR_CODES.has(code),
+  );
+
+/**
+ * Whether `error` is transient: a retryable status, a timeout, or a
+ * connection failure reported by an SDK or `fetch`. Other errors
+ * without a status (bugs, parse failures, missing settings) are not.
+ */
+const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  if (status === null) {
+    return (
+      error instanceof SearchTimeoutError ||
+      error instanceof OpenAIConnectionError ||
+      error instanceof AnthropicConnectionError ||
+      isNetworkError(error)
+    );
+  }
+
+  return RETRYABLE_STATUSES.has(status) || status >= MIN_SERVER_ERROR_STATUS;
+};
+
+/**
+ * Whether `error` says the provider or model cannot serve web search
+ * (unknown model, tool not enabled, quota exhausted, ...).
+ */
+const isCapabilityError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  if (status === null || !CAPABILITY_STATUSES.has(status)) {
+    return false;
+  }
+
+  return error instanceof Error && CAPABILITY_MESSAGE_PATTERN.test(error.message);
+};
+
+export {
+  formatUnhandledSearchError,
+  getErrorStatus,
+  isCapabilityError,
+  isRetryableError,
+  SearchTimeoutError,
+  TimeoutPhase,
+};
@@ -1,7 +1,9 @@
 import OpenAI from "openai";
 
-import { EMPTY_LENGTH } from "./search.js";
-import { SearchConfig, SearchHit } from "../../types.js";
+import { CitationSpan, EMPTY_LENGTH, countSearches } from "./search.js";
+import { SDK_MAX_RETRIES } from "./retry.js";
+import { buildSDKTimeoutOptions } from "./timeout.js";
+import { SearchAction, SearchConfig, SearchHit, SearchUsage } from "../../types.js";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -10,6 +12,32 @@ type ChatCompletionMessage = OpenAI.ChatCompletionMessage;
 type ResponseOutputItem = OpenAI.Responses.ResponseOutputItem;
 type ResponseOutputMessage = OpenAI.Responses.ResponseOutputMessage;
 type ResponseOutputText = OpenAI.Responses.ResponseOutputText;
+type WebSearchTool = OpenAI.Responses.WebSearchTool;
+
+/**
+ * The `action` of a Responses API `web_search_call`, loosely typed so
+ * the ChatGPT adapter's hand-parsed stream events fit it too.
+ */
+interface WebSearchCallAction {
+  pattern?: string;
+  queries?: string[];
+  query?: string;
+  type?: string;
+  url?: string | null;
+}
+
+/**
+ * Token counts of a Responses API `usage` object, loosely typed so the
+ * ChatGPT adapter's hand-parsed `response.completed` event fits it too.
+ */
+interface ResponsesUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const NO_TOKENS = 0;
 
 // ── Client creation ────────────────────────────────────────────────────
 
@@ -21,8 +49,12 @@ const createOpenAICompatibleClient = (
     apiKey: string;
     baseURL?: string;
     defaultHeaders?: Record<string, string>;
+    maxRetries: number;
+    timeout?: number;
   } = {
     apiKey: config.apiKey,
+    maxRetries: SDK_MAX_RETRIES,
+    ...buildSDKTimeoutOptions(config.timeouts),
   };
 
   if (config.baseURL) {
@@ -36,6 +68,38 @@ const createOpenAICompatibleClient = (
   return new OpenAI(options);
 };
 
+// ── Tool construction ──────────────────────────────────────────────────
+
+/**
+ * Build the Responses API `web_search` tool for a search call.
+ *
+ * Only allowed domains have a native filter; blocked domains are
+ * enforced by post-filtering the returned hits. The result language has
+ * no native parameter and is folded into the prompt by the caller.
+ */
+const buildResponsesWebSearchTool = (config: SearchConfig): WebSearchTool => {
+  const tool: WebSearchTool = { type: "web_search" };
+
+  if (config.domains.allowed.length > EMPTY_LENGTH) {
+    tool.filters = { allowed_domains: config.domains.allowed };
+  }
+
+  if (config.location) {
+    tool.user_location = { ...config.location, type: "approximate" };
+  }
+
+  return tool;
+};
+
+/**
+ * The tool fields of a Responses API request: the `web_search` tool, or
+ * none when the model only summarizes.
+ */
+const buildResponsesToolFields = (
+  config: SearchConfig,
+): { tool_choice?: "auto"; tools?: WebSearchTool[] } =>
+  config.withoutSearch ? {} : { tool_choice: "auto", tools: [buildResponsesWebSearchTool(config)] };
+
 // ── Text extraction ────────────────────────────────────────────────────
 
 const collectMessageTextParts = (items: ResponseOutputItem[]): string[] => {
@@ -195,11 +259,145 @@ const collectUniqueChatCompletionAnnotationHits = (message: ChatCompletionMessag
   return hits;
 };
 
+// ── Citation extraction ────────────────────────────────────────────────
+
+/**
+ * Collect the answer text spans covered by Responses API `url_citation`
+ * annotations, whose indices are relative to their output text part.
+ */
+const collectCitationSpans = (items: ResponseOutputItem[]): CitationSpan[] => {
+  const spans: CitationSpan[] = [];
+
+  for (const item of items) {
+    if (item.type !== "message") {
+      continue;
+    }
+
+    const message = item as ResponseOutputMessage;
+    for (const part of message.content) {
+      if (part.type !== "output_text") {
+        continue;
+      }
+
+      const outputText = part as ResponseOutputText;
+      for (const annotation of outputText.annotations) {
+        if (annotation.type !== "url_citation") {
+          continue;
+        }
+
+        spans.push({
+          text: outputText.text.slice(annotation.start_index, annotation.end_index),
+          title: annotation.title,
+          url: annotation.url,
+        });
+      }
+    }
+  }
+
+  return spans;
+};
+
+/**
+ * Collect the answer text spans covered by Chat Completions
+ * `url_citation` annotations.
+ */
+const collectChatCompletionCitationSpans = (message: ChatCompletionMessage): CitationSpan[] => {
+  const { annotations, content } = message;
+  if (!annotations || typeof content !== "string") {
+    return [];
+  }
+
+  const spans: CitationSpan[] = [];
+  for (const annotation of annotations) {
+    if (annotation.type !== "url_citation") {
+      continue;
+    }
+
+    const citation = annotation.url_citation;
+    spans.push({
+      text: content.slice(citation.start_index, citation.end_index),
+      title: citation.title,
+      url: citation.url,
+    });
+  }
+
+  return spans;
+};
+
+// ── Search action extraction ───────────────────────────────────────────
+
+/**
+ * Convert a `web_search_call` action to the searches and page actions it
+ * executed. A search reporting several `queries` yields one entry each.
+ */
+const toSearchActions = (action: WebSearchCallAction | undefined): SearchAction[] => {
+  if (!action) {
+    return [];
+  }
+
+  if (action.type === "search") {
+    const queries = action.queries?.length ? action.queries : [action.query];
+
+    return queries
+      .filter((query): query is string => typeof query === "string" && query.length > EMPTY_LENGTH)
+      .map((query) => ({ query, type: "search" }));
+  }
+
+  if (action.type === "open_page") {
+    return [action.url ? { type: "open_page", url: action.url } : { type: "open_page" }];
+  }
+
+  if (action.type === "find_in_page" && action.pattern) {
+    return [
+      action.url
+        ? { pattern: action.pattern, type: "find_in_page", url: action.url }
+        : { pattern: action.pattern, type: "find_in_page" },
+    ];
+  }
+
+  return [];
+};
+
+const collectSearchActions = (items: ResponseOutputItem[]): SearchAction[] => {
+  const actions: SearchAction[] = [];
+
+  for (const item of items) {
+    if (item.type === "web_search_call") {
+      actions.push(...toSearchActions((item as ResponseFunctionWebSearch).action));
+    }
+  }
+
+  return actions;
+};
+
+// ── Usage extraction ───────────────────────────────────────────────────
+
+/**
+ * Combine a Responses API `usage` object with the number of searches the
+ * response's `web_search_call` items executed.
+ */
+const buildResponsesUsage = (
+  usage: ResponsesUsage | null | undefined,
+  actions: SearchAction[],
+): SearchUsage => ({
+  inputTokens: usage?.input_tokens ?? NO_TOKENS,
+  outputTokens: usage?.output_tokens ?? NO_TOKENS,
+  searches: countSearches(actions),
+});
+
 export {
+  buildResponsesToolFields,
+  buildResponsesUsage,
+  collectChatCompletionCitationSpans,
+  collectCitationSpans,
+  collectSearchActions,
   collectUniqueAnnotationAndSourceHits,
   collectUniqueAnnotationHits,
   collectUniqueChatCompletionAnnotationHits,
   createOpenAICompatibleClient,
   resolveChatCompletionOutputText,
   resolveOutputText,
+  ResponsesUsage,
+  toSearchActions,
+  WebSearchCallAction,
 };
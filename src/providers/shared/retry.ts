@@ -0,0 +1,168 @@
+import { isRetryableError } from "./errors.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * How a provider call is retried.
+ *
+ * - `maxRetries`: retries after the first attempt.
+ * - `baseDelayMs` / `maxDelayMs`: bounds of the exponential backoff.
+ * - `maxElapsedMs`: total time budget; a retry whose delay would overrun
+ *   it is not attempted and the last error is thrown instead.
+ */
+interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxElapsedMs: number;
+  maxRetries: number;
+}
+
+interface HeadersLike {
+  get: (name: string) => string | null;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxElapsedMs: 30_000,
+  maxRetries: 3,
+};
+
+/**
+ * Passed as `maxRetries` to provider SDK clients: retries are handled by
+ * `withRetry`, not by each SDK's own (differing) defaults.
+ */
+const SDK_MAX_RETRIES = 0;
+
+const BACKOFF_FACTOR = 2;
+const HALF = 0.5;
+const INITIAL_RETRY = 0;
+const MS_PER_SECOND = 1000;
+const NO_DELAY = 0;
+const RETRY_INCREMENT = 1;
+const RETRY_AFTER_HEADER = "retry-after";
+const RETRY_AFTER_MS_HEADER = "retry-after-ms";
+
+// ── Retry-After parsing ────────────────────────────────────────────────
+
+const getErrorHeaders = (error: unknown): HeadersLike | null => {
+  if (!(error instanceof Error) || !("headers" in error)) {
+    return null;
+  }
+
+  const { headers } = error as { headers?: unknown };
+  if (headers && typeof (headers as HeadersLike).get === "function") {
+    return headers as HeadersLike;
+  }
+
+  return null;
+};
+
+const parseRetryAfter = (value: string, now: number): number | null => {
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(NO_DELAY, seconds * MS_PER_SECOND);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(NO_DELAY, date - now);
+};
+
+/**
+ * Read the delay requested by the server through `retry-after-ms` or
+ * `retry-after` (delta-seconds or an HTTP date). Returns `null` when the
+ * error carries neither header.
+ */
+const getRetryAfterMs = (error: unknown, now = Date.now()): number | null => {
+  const headers = getErrorHeaders(error);
+  if (!headers) {
+    return null;
+  }
+
+  const milliseconds = Number(headers.get(RETRY_AFTER_MS_HEADER) ?? Number.NaN);
+  if (Number.isFinite(milliseconds)) {
+    return Math.max(NO_DELAY, milliseconds);
+  }
+
+  const retryAfter = headers.get(RETRY_AFTER_HEADER);
+
+  return retryAfter ? parseRetryAfter(retryAfter, now) : null;
+};
+
+// ── Backoff ────────────────────────────────────────────────────────────
+
+/**
+ * Exponential backoff with equal jitter: half of the exponential delay is
+ * fixed, the other half random, so parallel agents spread their retries.
+ */
+const computeBackoffMs = (retry: number, policy: RetryPolicy): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * BACKOFF_FACTOR ** retry);
+
+  return exponential * HALF + Math.random() * exponential * HALF;
+};
+
+/**
+ * Wait `ms` milliseconds, rejecting with the abort reason as soon as
+ * `signal` fires.
+ */
+const sleep = async (ms: number, signal: AbortSignal): Promise<void> => {
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+// ── Public API ─────────────────────────────────────────────────────────
+
+/**
+ * Run `operation`, retrying retryable failures (rate limits, server
+ * errors, network failures) with exponential backoff. A server-provided
+ * `Retry-After` takes precedence over the computed backoff. Provider SDK
+ * clients are created with their own retries disabled so this policy
+ * applies uniformly across adapters.
+ *
+ * Once `signal` is aborted nothing is retried and a pending backoff ends
+ * immediately.
+ */
+const withRetry = async <Result>(
+  operation: () => Promise<Result>,
+  signal: AbortSignal,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<Result> => {
+  const startedAt = Date.now();
+
+  for (let retry = INITIAL_RETRY; ; retry += RETRY_INCREMENT) {
+    try {
+      // oxlint-disable-next-line no-await-in-loop -- each attempt waits for the previous one
+      return await operation();
+    } catch (error) {
+      if (signal.aborted || retry >= policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryAfterMs(error) ?? computeBackoffMs(retry, policy);
+      if (Date.now() - startedAt + delay > policy.maxElapsedMs) {
+        throw error;
+      }
+
+      // oxlint-disable-next-line no-await-in-loop -- backoff must elapse before the next attempt
+      await sleep(delay, signal);
+    }
+  }
+};
+
+export { SDK_MAX_RETRIES, withRetry };
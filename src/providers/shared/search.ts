@@ -1,23 +1,145 @@
-import { SearchHit, StructuredSearchResponse } from "../../types.js";
+import {
+  Citation,
+  DomainFilter,
+  SearchAction,
+  SearchHit,
+  SearchLocation,
+  SearchUsage,
+  StructuredSearchResponse,
+} from "../../types.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * A provider-reported citation before it is located in the final answer
+ * text: `text` is the cited part of the model's answer.
+ */
+interface CitationSpan {
+  text: string;
+  title: string;
+  url: string;
+}
+
+/**
+ * Optional parts of an adapter's response beyond its text and hits.
+ */
+interface ResponseDetails {
+  actions?: SearchAction[];
+  spans?: CitationSpan[];
+  usage?: SearchUsage;
+}
+
+/**
+ * Localization hints folded into the search prompt. Adapters pass only
+ * the hints their provider cannot take as native request parameters.
+ */
+interface SearchHints {
+  domains?: DomainFilter;
+  language?: string;
+  location?: SearchLocation;
+}
 
 // ── Constants ──────────────────────────────────────────────────────────
 
 const EMPTY_LENGTH = 0;
+const NOT_FOUND = -1;
+const SUMMARY_RESULT_INDEX = 0;
 const MAX_RESPONSE_TOKENS = 16_000;
-const SEARCH_INPUT_PREFIX = "Perform a web search for the query: ";
+const SEARCH_PROMPT_TEMPLATE = "Perform a web search for the query: {{query}}";
 const SEARCH_SYSTEM_PROMPT = "You are an assistant for performing a web search tool use";
 
 // ── Helpers ────────────────────────────────────────────────────────────
 
-const buildSearchInput = (query: string): string => `${SEARCH_INPUT_PREFIX}${query}`;
+const describeLocation = (location: SearchLocation): string | null => {
+  const place = [location.city, location.region, location.country].filter(Boolean).join(", ");
+  const timezone = location.timezone ? `timezone ${location.timezone}` : "";
+  const parts = [place, timezone].filter((part) => part.length > EMPTY_LENGTH);
+
+  return parts.length > EMPTY_LENGTH ? parts.join("; ") : null;
+};
+
+const buildHintLines = (hints: SearchHints): string[] => {
+  const lines: string[] = [];
+  const place = hints.location ? describeLocation(hints.location) : null;
+
+  if (place) {
+    lines.push(`Prefer results relevant to a user located in: ${place}.`);
+  }
+
+  if (hints.language) {
+    lines.push(`Prefer results written in ${hints.language} and answer in that language.`);
+  }
+
+  if (hints.domains && hints.domains.allowed.length > EMPTY_LENGTH) {
+    lines.push(`Only use sources from these domains: ${hints.domains.allowed.join(", ")}.`);
+  }
+
+  if (hints.domains && hints.domains.blocked.length > EMPTY_LENGTH) {
+    lines.push(`Never use sources from these domains: ${hints.domains.blocked.join(", ")}.`);
+  }
 
+  return lines;
+};
+
+/**
+ * Build the search request from the rendered prompt template, followed
+ * by the localization hints.
+ */
+const buildSearchInput = (prompt: string, hints: SearchHints = {}): string =>
+  [prompt, ...buildHintLines(hints)].join("\n");
+
+/**
+ * Locate citation spans in `text` (the result at `resultIndex`). Spans
+ * are searched in order so repeated phrases map to successive matches;
+ * spans that cannot be found in the final text are dropped.
+ */
+const locateCitations = (text: string, resultIndex: number, spans: CitationSpan[]): Citation[] => {
+  const citations: Citation[] = [];
+  let searchFrom = 0;
+
+  for (const span of spans) {
+    const spanText = span.text.trim();
+    if (spanText.length === EMPTY_LENGTH) {
+      continue;
+    }
+
+    let start = text.indexOf(spanText, searchFrom);
+    if (start === NOT_FOUND) {
+      start = text.indexOf(spanText);
+    }
+    if (start === NOT_FOUND) {
+      continue;
+    }
+
+    citations.push({
+      end: start + spanText.length,
+      resultIndex,
+      start,
+      title: span.title,
+      url: span.url,
+    });
+    searchFrom = start;
+  }
+
+  return citations;
+};
+
+const countSearches = (actions: SearchAction[]): number =>
+  actions.filter((action) => action.type === "search").length;
+
+/**
+ * Assemble an adapter's response: the answer text, then the hits.
+ * `citations` and `actions` are only included when non-empty.
+ */
 const buildStructuredResponse = (
   query: string,
   outputText: string,
   hits: SearchHit[],
+  { actions = [], spans = [], usage }: ResponseDetails = {},
 ): StructuredSearchResponse => {
   const results: (SearchHit[] | string)[] = [];
   const trimmedOutputText = outputText.trim();
+  const citations = locateCitations(trimmedOutputText, SUMMARY_RESULT_INDEX, spans);
 
   if (trimmedOutputText.length > EMPTY_LENGTH) {
     results.push(trimmedOutputText);
@@ -27,13 +149,130 @@ const buildStructuredResponse = (
     results.push(hits);
   }
 
-  return { query, results };
+  const response: StructuredSearchResponse = { query, results };
+  if (actions.length > EMPTY_LENGTH) {
+    response.actions = actions;
+  }
+  if (citations.length > EMPTY_LENGTH) {
+    response.citations = citations;
+  }
+  if (usage) {
+    response.usage = usage;
+  }
+
+  return response;
+};
+
+// ── Domain filtering ───────────────────────────────────────────────────
+
+/**
+ * Reduce a user-supplied domain or URL (`https://www.postgresql.org/docs`)
+ * to the bare lowercase host (`postgresql.org`).
+ */
+const normalizeDomain = (domain: string): string =>
+  domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[/:?#].*$/, "");
+
+const normalizeDomains = (domains: string[]): string[] => [
+  ...new Set(domains.map(normalizeDomain).filter((domain) => domain.length > EMPTY_LENGTH)),
+];
+
+const extractHost = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+const hostMatches = (host: string, domains: string[]): boolean =>
+  domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+/**
+ * Whether a source on `host` passes the domain filter. A source without a
+ * known host only passes when no domains are allowlisted.
+ */
+const isHostAllowed = (host: string | null, domains: DomainFilter): boolean => {
+  if (!host) {
+    return domains.allowed.length === EMPTY_LENGTH;
+  }
+
+  if (domains.allowed.length > EMPTY_LENGTH && !hostMatches(host, domains.allowed)) {
+    return false;
+  }
+
+  return !hostMatches(host, domains.blocked);
+};
+
+const isHitAllowed = (hit: SearchHit, domains: DomainFilter): boolean =>
+  isHostAllowed(extractHost(hit.url), domains);
+
+/**
+ * Keep the citations whose source passes the domain filter, re-pointing
+ * them at their result's position after dropped hit lists are removed.
+ */
+const filterCitations = (
+  citations: Citation[] | undefined,
+  indexMap: Map<number, number>,
+  domains: DomainFilter,
+): Citation[] | undefined => {
+  const kept: Citation[] = [];
+
+  for (const citation of citations ?? []) {
+    const resultIndex = indexMap.get(citation.resultIndex);
+    if (resultIndex !== undefined && isHitAllowed(citation, domains)) {
+      kept.push({ ...citation, resultIndex });
+    }
+  }
+
+  return kept.length > EMPTY_LENGTH ? kept : undefined;
+};
+
+/**
+ * Drop search hits (and citations) that fall outside the domain filter.
+ * Applied to every response so providers without native domain filtering
+ * (or with only partial support) still honour it.
+ */
+const filterResponseHits = (
+  response: StructuredSearchResponse,
+  domains: DomainFilter,
+): StructuredSearchResponse => {
+  if (domains.allowed.length === EMPTY_LENGTH && domains.blocked.length === EMPTY_LENGTH) {
+    return response;
+  }
+
+  const results: (SearchHit[] | string)[] = [];
+  const indexMap = new Map<number, number>();
+  for (const [index, result] of response.results.entries()) {
+    const kept =
+      typeof result === "string" ? result : result.filter((hit) => isHitAllowed(hit, domains));
+    if (kept.length > EMPTY_LENGTH) {
+      indexMap.set(index, results.length);
+      results.push(kept);
+    }
+  }
+
+  const { citations: unfiltered, ...rest } = response;
+  const citations = filterCitations(unfiltered, indexMap, domains);
+
+  return citations ? { ...rest, citations, results } : { ...rest, results };
 };
 
 export {
   buildSearchInput,
+  CitationSpan,
   buildStructuredResponse,
+  countSearches,
   EMPTY_LENGTH,
+  filterResponseHits,
+  isHitAllowed,
+  isHostAllowed,
   MAX_RESPONSE_TOKENS,
+  normalizeDomains,
+  SEARCH_PROMPT_TEMPLATE,
   SEARCH_SYSTEM_PROMPT,
 };
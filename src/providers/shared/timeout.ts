@@ -0,0 +1,103 @@
+import { APIConnectionTimeoutError as AnthropicConnectionTimeoutError } from "@anthropic-ai/sdk";
+import { APIConnectionTimeoutError as OpenAIConnectionTimeoutError } from "openai";
+
+import { SearchTimeoutError, TimeoutPhase } from "./errors.js";
+import { TimeoutSettings } from "../../types.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * A restartable timer whose `signal` aborts with a `SearchTimeoutError`
+ * once it runs out. `start` (re)arms the timer, `clear` disarms it.
+ */
+interface Deadline {
+  clear: () => void;
+  signal: AbortSignal;
+  start: () => void;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const DISABLED_TIMEOUT = 0;
+
+// ── Deadlines ──────────────────────────────────────────────────────────
+
+/**
+ * Create a deadline for `phase`. A `timeoutMs` of `0` yields a deadline
+ * that never fires.
+ */
+const createDeadline = (phase: TimeoutPhase, timeoutMs: number): Deadline => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined = undefined;
+
+  const clear = (): void => {
+    clearTimeout(timer);
+  };
+
+  const start = (): void => {
+    clear();
+    if (timeoutMs > DISABLED_TIMEOUT) {
+      timer = setTimeout(() => {
+        controller.abort(new SearchTimeoutError(phase, timeoutMs));
+      }, timeoutMs);
+    }
+  };
+
+  return { clear, signal: controller.signal, start };
+};
+
+/**
+ * Map an error raised while `deadlines` were armed to the timeout that
+ * caused it, if any. Provider SDK connection timeouts (driven by
+ * `buildSDKTimeoutOptions`) become `connect` timeouts.
+ */
+const resolveTimeoutError = (
+  error: unknown,
+  timeouts: TimeoutSettings,
+  deadlines: Deadline[] = [],
+): unknown => {
+  const fired = deadlines.find((deadline) => deadline.signal.aborted);
+  if (fired) {
+    return fired.signal.reason;
+  }
+
+  if (
+    error instanceof AnthropicConnectionTimeoutError ||
+    error instanceof OpenAIConnectionTimeoutError
+  ) {
+    return new SearchTimeoutError("connect", timeouts.connectMs);
+  }
+
+  return error;
+};
+
+/**
+ * Client options enforcing the connect timeout in the Anthropic and
+ * OpenAI SDKs, whose `timeout` covers the wait for response headers.
+ */
+const buildSDKTimeoutOptions = (timeouts: TimeoutSettings): { timeout?: number } =>
+  timeouts.connectMs > DISABLED_TIMEOUT ? { timeout: timeouts.connectMs } : {};
+
+/**
+ * Run `operation` under the total timeout. The signal passed to
+ * `operation` fires on either the caller's abort or the total timeout;
+ * a timeout surfaces as a `SearchTimeoutError`.
+ */
+const withTotalTimeout = async <Result>(
+  operation: (signal: AbortSignal) => Promise<Result>,
+  signal: AbortSignal,
+  timeouts: TimeoutSettings,
+): Promise<Result> => {
+  const total = createDeadline("total", timeouts.totalMs);
+  total.start();
+
+  try {
+    return await operation(AbortSignal.any([signal, total.signal]));
+  } catch (error) {
+    throw resolveTimeoutError(error, timeouts, [total]);
+  } finally {
+    total.clear();
+  }
+};
+
+export { buildSDKTimeoutOptions, createDeadline, Deadline, resolveTimeoutError, withTotalTimeout };
@@ -0,0 +1,104 @@
+import {
+  buildBackendHit,
+  buildBackendResponse,
+  fetchBackendJSON,
+  formatBackendError,
+} from "../shared/backend.js";
+import { SearchConfig, SearchRecency, StructuredSearchResponse } from "../../types.js";
+import { EMPTY_LENGTH } from "../shared/search.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface TavilySearchRequest {
+  exclude_domains?: string[];
+  include_domains?: string[];
+  max_results: number;
+  query: string;
+  time_range?: Exclude<SearchRecency, "hour">;
+}
+
+interface TavilyResult {
+  content?: string;
+  published_date?: string;
+  title?: string;
+  url?: string;
+}
+
+interface TavilyResponse {
+  results?: TavilyResult[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const TAVILY_DEFAULT_BASE_URL = "https://api.tavily.com";
+// Tavily returns at most 20 results per request.
+const MAX_RESULTS = 20;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => formatBackendError("Tavily", error);
+
+// ── Request helpers ────────────────────────────────────────────────────
+
+/**
+ * Domains are passed natively. Tavily's narrowest time range is a day,
+ * which `hour` falls back to; it takes no location or language.
+ */
+const buildRequestBody = (config: SearchConfig, query: string): TavilySearchRequest => {
+  const body: TavilySearchRequest = {
+    max_results: Math.min(config.tuning.maxResults, MAX_RESULTS),
+    query,
+  };
+
+  if (config.domains.allowed.length > EMPTY_LENGTH) {
+    body.include_domains = config.domains.allowed;
+  }
+
+  if (config.domains.blocked.length > EMPTY_LENGTH) {
+    body.exclude_domains = config.domains.blocked;
+  }
+
+  const recency = config.tuning.searchRecency;
+  if (recency) {
+    body.time_range = recency === "hour" ? "day" : recency;
+  }
+
+  return body;
+};
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const response = await fetchBackendJSON<TavilyResponse>(
+    config,
+    `${(config.baseURL ?? TAVILY_DEFAULT_BASE_URL).replace(/\/$/, "")}/search`,
+    {
+      body: JSON.stringify(buildRequestBody(config, query)),
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      method: "POST",
+    },
+    signal,
+  );
+
+  const hits = (response.results ?? []).flatMap((result) =>
+    result.url
+      ? [
+          buildBackendHit(result.url, result.title, {
+            date: result.published_date,
+            snippet: result.content,
+          }),
+        ]
+      : [],
+  );
+
+  return buildBackendResponse(query, config, hits);
+};
+
+export { executeSearch, formatErrorMessage };
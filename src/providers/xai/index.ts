@@ -0,0 +1,152 @@
+import {
+  buildResponsesUsage,
+  collectCitationSpans,
+  collectSearchActions,
+  collectUniqueAnnotationHits,
+  createOpenAICompatibleClient,
+  resolveOutputText,
+} from "../shared/openai-compatible.js";
+import { buildSearchInput, buildStructuredResponse, EMPTY_LENGTH } from "../shared/search.js";
+import { formatUnhandledSearchError } from "../shared/errors.js";
+import { withRetry } from "../shared/retry.js";
+import OpenAI, { APIError } from "openai";
+import { DomainFilter, SearchConfig, SearchHit, StructuredSearchResponse } from "../../types.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface XAIDomainFilters {
+  allowed_domains?: string[];
+  excluded_domains?: string[];
+}
+
+/**
+ * Grok's server-side search tools. Neither is part of the OpenAI SDK's
+ * tool union, so they are sent as plain objects.
+ */
+interface XAISearchTool {
+  filters?: XAIDomainFilters;
+  type: "web_search" | "x_search";
+}
+
+/**
+ * The xAI API also lists every source it used as a top-level
+ * `citations` array of URLs.
+ */
+type XAIResponse = OpenAI.Responses.Response & { citations?: string[] };
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const XAI_DEFAULT_BASE_URL = "https://api.x.ai/v1";
+// The xAI API rejects domain filters listing more than five domains.
+const MAX_FILTER_DOMAINS = 5;
+
+// ── Error formatting ───────────────────────────────────────────────────
+
+const formatErrorMessage = (error: unknown): string => {
+  if (error instanceof APIError) {
+    return `xAI API error: ${error.message} (status: ${error.status})`;
+  }
+
+  return formatUnhandledSearchError(error);
+};
+
+// ── Tool construction ──────────────────────────────────────────────────
+
+const fitsFilter = (domains: string[]): boolean =>
+  domains.length > EMPTY_LENGTH && domains.length <= MAX_FILTER_DOMAINS;
+
+/**
+ * The xAI API takes either allowed or excluded domains, up to five of
+ * them. Anything it cannot take natively is enforced by post-filtering
+ * hits.
+ */
+const buildDomainFilters = (domains: DomainFilter): XAIDomainFilters | undefined => {
+  if (fitsFilter(domains.allowed)) {
+    return { allowed_domains: domains.allowed };
+  }
+
+  if (domains.allowed.length === EMPTY_LENGTH && fitsFilter(domains.blocked)) {
+    return { excluded_domains: domains.blocked };
+  }
+
+  return undefined;
+};
+
+const buildSearchTools = (config: SearchConfig): XAISearchTool[] =>
+  (config.withoutSearch ? [] : config.tuning.sources).map((source): XAISearchTool => {
+    if (source === "x") {
+      return { type: "x_search" };
+    }
+
+    const filters = buildDomainFilters(config.domains);
+    return filters ? { filters, type: "web_search" } : { type: "web_search" };
+  });
+
+// ── Search hit extraction ──────────────────────────────────────────────
+
+/**
+ * Annotated citations first, then the remaining URLs from the top-level
+ * `citations` list (X posts included), titled by their URL.
+ */
+const collectHits = (response: XAIResponse): SearchHit[] => {
+  const hits = collectUniqueAnnotationHits(response.output);
+  const seen = new Set(hits.map((hit) => hit.url));
+
+  for (const url of response.citations ?? []) {
+    if (!seen.has(url)) {
+      seen.add(url);
+      hits.push({ title: url, url });
+    }
+  }
+
+  return hits;
+};
+
+// ── Client and execution ───────────────────────────────────────────────
+
+/**
+ * Grok's `web_search` takes no location or language parameters, so both
+ * are folded into the search prompt.
+ */
+const executeSearch = async (
+  config: SearchConfig,
+  query: string,
+  signal: AbortSignal,
+): Promise<StructuredSearchResponse> => {
+  const client = createOpenAICompatibleClient({
+    ...config,
+    baseURL: config.baseURL ?? XAI_DEFAULT_BASE_URL,
+  });
+
+  const response: XAIResponse = await withRetry(
+    async () =>
+      client.responses.create(
+        {
+          input: buildSearchInput(config.instructions.prompt, {
+            language: config.language,
+            location: config.location,
+          }),
+          instructions: config.instructions.system,
+          max_output_tokens: config.tuning.maxTokens,
+          model: config.model,
+          tools: buildSearchTools(config) as unknown as OpenAI.Responses.Tool[],
+        },
+        { signal },
+      ),
+    signal,
+  );
+
+  const outputText = resolveOutputText(response.output_text, response.output);
+  const spans = collectCitationSpans(response.output);
+  const actions = collectSearchActions(response.output);
+
+  const usage = buildResponsesUsage(response.usage, actions);
+
+  return buildStructuredResponse(query, outputText, collectHits(response), {
+    actions,
+    spans,
+    usage,
+  });
+};
+
+export { executeSearch, formatErrorMessage };
@@ -0,0 +1,464 @@
+import {
+  ActiveModel,
+  OutputFormat,
+  ProviderResolution,
+  SearchConfig,
+  SearchFailure,
+  SearchHit,
+  SearchInstructions,
+  SearchLocation,
+  SearchOptions,
+  SearchTuning,
+  SearchUsage,
+  StructuredSearchResponse,
+  TimeoutSettings,
+  WebsearchSettings,
+} from "./types.js";
+import { CacheKey, SearchCache } from "./cache.js";
+import { ModelPrice, UsageTracker } from "./usage.js";
+import { SearchBudgetError, reserveBudget } from "./budget.js";
+import { AdapterRegistry, dispatchErrorMessage, dispatchSearch } from "./providers/index.js";
+import { basename } from "node:path";
+import { buildInstructions, buildSummaryInstructions } from "./prompts.js";
+import { formatResponse } from "./format.js";
+import { getCurrentDate } from "./helpers.js";
+import { isBackendType } from "./providers/registry.js";
+import { isCapabilityError, isRetryableError } from "./providers/shared/errors.js";
+import { normalizeLocation, parseOptionalString } from "./config.js";
+import { normalizeDomains } from "./providers/shared/search.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+interface PickedModel {
+  modelID: string;
+  resolution: ProviderResolution;
+}
+
+/**
+ * Identifies who a search runs for, for usage accounting: the OpenCode
+ * session and the project worktree.
+ */
+interface SearchCaller {
+  project: string;
+  sessionID: string;
+}
+
+interface SearchArgs {
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+  fresh?: boolean;
+  language?: string;
+  location?: SearchLocation;
+  query: string;
+}
+
+/**
+ * A single `web-search` call with its per-call arguments merged over
+ * the plugin settings. `signal` fires when the tool call is aborted.
+ * `summarizer` is the LLM-based candidate that summarizes a search
+ * backend's hits; `instructions` replace the rendered prompt templates
+ * for that summary.
+ */
+interface SearchRequest {
+  caller: SearchCaller;
+  fresh: boolean;
+  instructions?: SearchInstructions;
+  options: SearchOptions;
+  query: string;
+  signal: AbortSignal;
+  summarizer?: PickedModel;
+}
+
+/**
+ * Plugin-wide state a search runs against. `adapters` are the external
+ * adapters of the settings load the search started with.
+ */
+interface SearchServices {
+  adapters: AdapterRegistry;
+  cache: SearchCache;
+  prices: Map<string, ModelPrice>;
+  settings: WebsearchSettings;
+  usage: UsageTracker;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const CANCELLED_MESSAGE = "Web search cancelled.";
+const NO_FAILURES = 0;
+const NO_HITS = 0;
+const NO_SEARCHES = 0;
+const NO_TOKENS = 0;
+const SINGLE_ATTEMPT = 1;
+
+// ── Request building ───────────────────────────────────────────────────
+
+const mergeLocation = (
+  configured: SearchLocation | undefined,
+  override: SearchLocation | undefined,
+): SearchLocation | undefined =>
+  override ? normalizeLocation({ ...configured, ...override }) : configured;
+
+/**
+ * Merge per-call arguments over the plugin settings. A domain list passed
+ * to the tool replaces the configured default rather than extending it;
+ * location fields override the configured location one by one.
+ */
+const buildSearchRequest = (
+  args: SearchArgs,
+  settings: WebsearchSettings,
+  caller: SearchCaller,
+  signal: AbortSignal,
+): SearchRequest => ({
+  caller,
+  fresh: args.fresh ?? false,
+  options: {
+    domains: {
+      allowed: args.allowedDomains
+        ? normalizeDomains(args.allowedDomains)
+        : settings.domains.allowed,
+      blocked: args.blockedDomains
+        ? normalizeDomains(args.blockedDomains)
+        : settings.domains.blocked,
+    },
+    language: parseOptionalString(args.language) ?? settings.language,
+    location: mergeLocation(settings.location, args.location),
+  },
+  query: args.query,
+  signal,
+});
+
+// ── Execution ──────────────────────────────────────────────────────────
+
+/**
+ * Layer the per-provider timeout overrides over the global timeouts.
+ */
+const resolveTimeouts = (settings: WebsearchSettings, providerID: string): TimeoutSettings => ({
+  ...settings.timeouts,
+  ...settings.providers[providerID]?.timeouts,
+});
+
+/**
+ * Layer the per-provider, then per-model, tuning over the global tuning.
+ */
+const resolveTuning = (settings: WebsearchSettings, picked: PickedModel): SearchTuning => {
+  const provider = settings.providers[picked.resolution.providerID];
+
+  return { ...settings.tuning, ...provider?.tuning, ...provider?.models[picked.modelID] };
+};
+
+/**
+ * Resolve the config a candidate is searched with: its credentials, the
+ * request's options, and the tuning and prompts that apply to it.
+ */
+const buildSearchConfig = (
+  picked: PickedModel,
+  request: SearchRequest,
+  settings: WebsearchSettings,
+): SearchConfig => {
+  const tuning = resolveTuning(settings, picked);
+  const instructions =
+    request.instructions ??
+    buildInstructions(tuning, {
+      date: getCurrentDate(),
+      project: basename(request.caller.project),
+      query: request.query,
+    });
+
+  return {
+    ...picked.resolution.credentials,
+    ...request.options,
+    instructions,
+    model: picked.modelID,
+    timeouts: resolveTimeouts(settings, picked.resolution.providerID),
+    tuning,
+  };
+};
+
+const buildCacheKey = (
+  picked: PickedModel,
+  request: SearchRequest,
+  config: SearchConfig,
+): CacheKey => ({
+  instructions: config.instructions,
+  model: picked.modelID,
+  options: request.options,
+  providerID: picked.resolution.providerID,
+  query: request.query,
+  tuning: config.tuning,
+});
+
+/**
+ * Dispatch a search and record its usage. Cancelled searches are not
+ * recorded; failed ones count as errors.
+ */
+const dispatchTracked = async (
+  picked: PickedModel,
+  config: SearchConfig,
+  request: SearchRequest,
+  services: SearchServices,
+): Promise<StructuredSearchResponse> => {
+  const startedAt = Date.now();
+  const track = (response?: StructuredSearchResponse): void => {
+    services.usage.record({
+      ...request.caller,
+      failed: !response || response.failed === true,
+      latencyMs: Date.now() - startedAt,
+      model: picked.modelID,
+      providerID: picked.resolution.providerID,
+      type: picked.resolution.type,
+      usage: response?.usage,
+    });
+  };
+
+  try {
+    const response = await dispatchSearch(
+      picked.resolution.type,
+      services.adapters,
+      config,
+      request.query,
+      request.signal,
+    );
+    track(response);
+
+    return response;
+  } catch (error) {
+    if (!request.signal.aborted) {
+      track();
+    }
+    throw error;
+  }
+};
+
+const addUsage = (left: SearchUsage | undefined, right: SearchUsage | undefined): SearchUsage => ({
+  inputTokens: (left?.inputTokens ?? NO_TOKENS) + (right?.inputTokens ?? NO_TOKENS),
+  outputTokens: (left?.outputTokens ?? NO_TOKENS) + (right?.outputTokens ?? NO_TOKENS),
+  searches: (left?.searches ?? NO_SEARCHES) + (right?.searches ?? NO_SEARCHES),
+});
+
+/**
+ * Hand a search backend's hits to the request's summarizer when the
+ * backend has `summarize` set. The summarizer answers without its
+ * web-search tool; the call is still checked against its limits and
+ * tracked as its own call. When it fails, the hits are returned without
+ * a summary.
+ */
+const summarizeHits = async (
+  picked: PickedModel,
+  response: StructuredSearchResponse,
+  request: SearchRequest,
+  services: SearchServices,
+): Promise<StructuredSearchResponse> => {
+  const { summarizer } = request;
+  const hits = response.results
+    .filter((result): result is SearchHit[] => Array.isArray(result))
+    .flat();
+  if (
+    !summarizer ||
+    !services.settings.providers[picked.resolution.providerID]?.summarize ||
+    hits.length === NO_HITS
+  ) {
+    return response;
+  }
+
+  try {
+    const release = reserveBudget({
+      ...request.caller,
+      prices: services.prices,
+      providerID: summarizer.resolution.providerID,
+      settings: services.settings,
+      usage: services.usage,
+    });
+
+    const summaryRequest = {
+      ...request,
+      instructions: buildSummaryInstructions(request.query, hits),
+    };
+    const summary = await dispatchTracked(
+      summarizer,
+      { ...buildSearchConfig(summarizer, summaryRequest, services.settings), withoutSearch: true },
+      summaryRequest,
+      services,
+    ).finally(release);
+    const text = summary.results.find((result) => typeof result === "string");
+
+    return text && !summary.failed
+      ? { ...response, results: [text, hits], usage: addUsage(response.usage, summary.usage) }
+      : response;
+  } catch (error) {
+    if (request.signal.aborted) {
+      throw error;
+    }
+
+    return response;
+  }
+};
+
+/**
+ * Search with a single candidate, serving it from the cache unless
+ * `fresh` is set. A cache miss is checked against the search limits
+ * before it is dispatched, and holds a slot under them until its usage
+ * is recorded. Successful responses are written back to the
+ * cache; adapter errors propagate to the caller, and neither they nor
+ * failures reported as answer text are cached.
+ */
+const attemptSearch = async (
+  picked: PickedModel,
+  request: SearchRequest,
+  services: SearchServices,
+): Promise<StructuredSearchResponse> => {
+  const config = buildSearchConfig(picked, request, services.settings);
+  const key = buildCacheKey(picked, request, config);
+
+  const cached = request.fresh ? null : services.cache.read(key);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  const release = reserveBudget({
+    ...request.caller,
+    prices: services.prices,
+    providerID: picked.resolution.providerID,
+    settings: services.settings,
+    usage: services.usage,
+  });
+
+  const response = await summarizeHits(
+    picked,
+    await dispatchTracked(picked, config, request, services).finally(release),
+    request,
+    services,
+  );
+  if (!response.failed) {
+    services.cache.write(key, response);
+  }
+
+  return response;
+};
+
+/**
+ * Pick the model that summarizes the hits of search backends configured
+ * with `summarize`: the active model when it is an LLM-based candidate,
+ * otherwise the first LLM-based candidate.
+ */
+const findSummarizer = (
+  candidates: PickedModel[],
+  active: ActiveModel | undefined,
+): PickedModel | undefined => {
+  const models = candidates.filter((candidate) => !isBackendType(candidate.resolution.type));
+  const [first] = models;
+
+  return (
+    models.find(
+      (candidate) =>
+        candidate.modelID === active?.modelID &&
+        candidate.resolution.providerID === active.providerID,
+    ) ?? first
+  );
+};
+
+const shouldFailOver = (error: unknown): boolean =>
+  isRetryableError(error) || isCapabilityError(error);
+
+const toFailure = (
+  picked: PickedModel,
+  adapters: AdapterRegistry,
+  error: unknown,
+): SearchFailure => ({
+  error: dispatchErrorMessage(picked.resolution.type, adapters, error),
+  model: picked.modelID,
+  providerID: picked.resolution.providerID,
+});
+
+const formatFailures = (failures: SearchFailure[]): string => {
+  const [only] = failures;
+  if (failures.length === SINGLE_ATTEMPT && only) {
+    return only.error;
+  }
+
+  const lines = failures.map(
+    (failure) => `- ${failure.providerID} (${failure.model}): ${failure.error}`,
+  );
+
+  return `Error: web search failed on all ${failures.length} attempted providers:\n${lines.join("\n")}`;
+};
+
+/**
+ * Format a candidate's answer, reporting who answered when failover went
+ * past failing candidates first.
+ */
+const formatAnswer = (
+  picked: PickedModel,
+  response: StructuredSearchResponse,
+  failures: SearchFailure[],
+  output: OutputFormat,
+): string => {
+  if (failures.length === NO_FAILURES) {
+    return formatResponse(response, output);
+  }
+
+  const answeredBy = { model: picked.modelID, providerID: picked.resolution.providerID };
+
+  return formatResponse({ ...response, answeredBy, failures }, output);
+};
+
+/**
+ * Run a search, walking `candidates` in order.
+ *
+ * With failover enabled, a retryable or capability failure (timeouts
+ * included) moves on to the next candidate, up to `failover.maxAttempts`
+ * attempts. The answer then reports which provider answered and the
+ * failures along the way. Any other failure, or running out of
+ * candidates, returns the formatted error(s). A candidate over its
+ * search limits is skipped without using up an attempt, unless failover
+ * is disabled; when no candidate had budget left the "budget exhausted"
+ * message is returned.
+ * A cancelled tool call stops immediately without failing over.
+ */
+const runSearch = async (
+  candidates: PickedModel[],
+  request: SearchRequest,
+  services: SearchServices,
+): Promise<string> => {
+  const { failover, output } = services.settings;
+  const maxAttempts = failover.enabled ? failover.maxAttempts : SINGLE_ATTEMPT;
+  const failures: SearchFailure[] = [];
+  let exhausted: string | undefined = undefined;
+
+  for (const picked of candidates) {
+    if (failures.length >= maxAttempts) {
+      break;
+    }
+
+    try {
+      return formatAnswer(
+        picked,
+        // oxlint-disable-next-line no-await-in-loop -- candidates are tried one after another
+        await attemptSearch(picked, request, services),
+        failures,
+        output,
+      );
+    } catch (error) {
+      if (request.signal.aborted) {
+        return CANCELLED_MESSAGE;
+      }
+
+      // With failover, another candidate may have higher limits of its own.
+      if (error instanceof SearchBudgetError) {
+        exhausted ??= error.message;
+        if (!failover.enabled) {
+          break;
+        }
+        continue;
+      }
+
+      failures.push(toFailure(picked, services.adapters, error));
+      if (!shouldFailOver(error)) {
+        break;
+      }
+    }
+  }
+
+  return exhausted && failures.length === NO_FAILURES ? exhausted : formatFailures(failures);
+};
+
+export { buildSearchRequest, findSummarizer, PickedModel, runSearch, SearchServices };
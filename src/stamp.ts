@@ -0,0 +1,52 @@
+import { join } from "node:path";
+import { statSync } from "node:fs";
+
+import { PathClient, resolveAuthPathFromStatePath } from "./providers/shared/auth.js";
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const CONFIG_FILE_NAMES = ["config.json", "opencode.json", "opencode.jsonc"];
+const PROJECT_CONFIG_DIR = ".opencode";
+const MISSING_FILE = "missing";
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+const listConfigFiles = (directory: string | undefined): string[] =>
+  directory ? CONFIG_FILE_NAMES.map((name) => join(directory, name)) : [];
+
+const readMtime = (file: string): string =>
+  String(statSync(file, { throwIfNoEntry: false })?.mtimeMs ?? MISSING_FILE);
+
+// ── Public API ─────────────────────────────────────────────────────────
+
+/**
+ * Fingerprint the files provider resolutions and settings are loaded
+ * from: OpenCode's `auth.json`, the global, `OPENCODE_CONFIG` and project
+ * config files (including both `.opencode/` directories), and the
+ * `settingsFiles` the loaded settings name (prompt files and local
+ * adapters). The stamp changes whenever one of them is created, modified
+ * or removed, so comparing stamps tells whether the resolutions and
+ * settings are stale.
+ */
+const readResolutionStamp = async (
+  client: PathClient,
+  directory: string,
+  worktree: string,
+  settingsFiles: string[],
+): Promise<string> => {
+  const { data } = await client.path.get({ query: { directory } });
+  const files = [
+    resolveAuthPathFromStatePath(data?.state),
+    process.env.OPENCODE_CONFIG,
+    ...listConfigFiles(data?.config),
+    ...listConfigFiles(worktree),
+    ...listConfigFiles(directory),
+    ...listConfigFiles(join(worktree, PROJECT_CONFIG_DIR)),
+    ...listConfigFiles(join(directory, PROJECT_CONFIG_DIR)),
+    ...settingsFiles,
+  ].filter((file): file is string => Boolean(file));
+
+  return [...new Set(files)].map((file) => `${file}:${readMtime(file)}`).join("\n");
+};
+
+export { readResolutionStamp };
@@ -3,34 +3,130 @@
 /**
  * Credentials needed to call a provider API.
  * Resolved from provider configuration and/or OpenCode auth state.
+ * `apiVersion`, `entraAuth` and `resourceName` are only set for Azure
+ * OpenAI; `entraAuth` sends the `apiKey` as a Microsoft Entra ID token.
+ * `githubDomain` is only set for GitHub Copilot OAuth credentials, whose
+ * `apiKey` is a GitHub token exchanged for a Copilot API token.
  */
 interface ProviderCredentials {
   accountId?: string;
   apiKey: string;
+  apiVersion?: string;
   baseURL?: string;
+  entraAuth?: boolean;
+  githubDomain?: string;
+  resourceName?: string;
 }
 
 /**
  * Identifies which provider type a resolution belongs to.
  */
-type ProviderType = "anthropic" | "chatgpt" | "copilot" | "moonshot" | "openai";
+type ProviderType =
+  | "anthropic"
+  | "azure"
+  | "brave"
+  | "chatgpt"
+  | "copilot"
+  | "exa"
+  | "gemini"
+  | "moonshot"
+  | "openai"
+  | "openrouter"
+  | "perplexity"
+  | "searxng"
+  | "tavily"
+  | "xai";
 
 /**
  * Provider types detectable from OpenCode provider config.
  * `chatgpt` is excluded because it is derived from OAuth credentials
  * read separately from `auth.json`, not from a provider entry.
  */
-type ScannableProviderType = Exclude<ProviderType, "chatgpt">;
+type ScannableProviderType = Exclude<ProviderType, BackendProviderType | "chatgpt">;
+
+/**
+ * Search backends that are not LLM providers. They are configured under
+ * `websearch.providers.<id>` instead of OpenCode's provider list.
+ */
+type BackendProviderType = "brave" | "exa" | "searxng" | "tavily";
+
+/**
+ * The adapter a resolution dispatches to: a built-in `ProviderType`, or
+ * the `id` of an adapter registered through `websearch.adapters`.
+ */
+type AdapterType = ProviderType | (string & Record<never, never>);
+
+/**
+ * When a search backend is used, with the meaning of a model's
+ * `"websearch"` option: `always` locks it in, `auto` makes it a fallback.
+ */
+type WebsearchUse = "always" | "auto";
+
+/**
+ * Domain restrictions for a search. Domains match themselves and their
+ * subdomains; an empty list means no restriction.
+ */
+interface DomainFilter {
+  allowed: string[];
+  blocked: string[];
+}
+
+/**
+ * Approximate user location used to localize search results.
+ * `country` is a two-letter ISO country code; `timezone` an IANA name.
+ */
+interface SearchLocation {
+  city?: string;
+  country?: string;
+  region?: string;
+  timezone?: string;
+}
+
+/**
+ * Per-call options that shape the search itself, independent of which
+ * provider runs it. `language` is the preferred result language.
+ */
+interface SearchOptions {
+  domains: DomainFilter;
+  language?: string;
+  location?: SearchLocation;
+}
+
+/**
+ * Request timeouts in milliseconds; `0` disables a timeout.
+ *
+ * - `connectMs`: until response headers arrive.
+ * - `idleMs`: between chunks of a streamed response.
+ * - `totalMs`: for the whole search, retries included.
+ */
+interface TimeoutSettings {
+  connectMs: number;
+  idleMs: number;
+  totalMs: number;
+}
 
 /**
  * Fully resolved config for a single web search call:
- * credentials + the specific model to use.
+ * credentials + the specific model to use + the search options.
+ * `withoutSearch` is set when the model summarizes a backend's hits:
+ * it answers from the prompt alone, so no web-search tool is sent.
  */
 interface SearchConfig {
   accountId?: string;
   apiKey: string;
+  apiVersion?: string;
   baseURL?: string;
+  domains: DomainFilter;
+  entraAuth?: boolean;
+  githubDomain?: string;
+  instructions: SearchInstructions;
+  language?: string;
+  location?: SearchLocation;
   model: string;
+  resourceName?: string;
+  timeouts: TimeoutSettings;
+  tuning: SearchTuning;
+  withoutSearch?: boolean;
 }
 
 /**
@@ -50,7 +146,48 @@ interface ProviderResolution {
   fallbackModel?: string;
   lockedModel?: string;
   providerID: string;
-  type: ProviderType;
+  type: AdapterType;
+}
+
+// ── Adapters ───────────────────────────────────────────────────────────
+
+/**
+ * The parts of an OpenCode provider entry an adapter sees when it is
+ * asked whether it handles the provider.
+ */
+interface AdapterProvider {
+  id: string;
+  key?: string;
+  models: Record<string, { api: { npm: string }; id: string; options: Record<string, unknown> }>;
+  options: Record<string, unknown>;
+}
+
+/**
+ * What dispatching a search needs from an adapter. `filtersDomains` marks
+ * adapters that apply `config.domains` to their hits themselves, e.g.
+ * because their source URLs are redirect links the shared post-filter
+ * cannot match.
+ */
+interface ProviderAdapter {
+  executeSearch: (
+    config: SearchConfig,
+    query: string,
+    signal: AbortSignal,
+  ) => Promise<StructuredSearchResponse>;
+  filtersDomains?: boolean;
+  formatErrorMessage: (error: unknown) => string;
+}
+
+/**
+ * An adapter shipped outside this plugin and listed in
+ * `websearch.adapters`. `detect` claims OpenCode providers for it, and
+ * `resolveCredentials` reads their credentials; without it the
+ * provider's `key` (or `options.apiKey`) and `options.baseURL` are used.
+ */
+interface SearchAdapter extends ProviderAdapter {
+  detect: (provider: AdapterProvider) => boolean;
+  id: string;
+  resolveCredentials?: (provider: AdapterProvider) => ProviderCredentials | null;
 }
 
 // ── Active Model ───────────────────────────────────────────────────────
@@ -67,30 +204,265 @@ interface ActiveModel {
 // ── Structured Result Types ────────────────────────────────────────────
 
 /**
- * A single search result hit with a title and URL.
- * Used by Anthropic, OpenAI, and Copilot providers.
+ * A single search result hit with a title and URL. `date` is the
+ * publication date, for providers that report one (Perplexity and the
+ * search backends). Search backends also return a `snippet` of the page and,
+ * for SearXNG, the `engine` that found it.
  */
 interface SearchHit {
+  date?: string;
+  engine?: string;
+  snippet?: string;
   title: string;
   url: string;
 }
 
+/**
+ * Links a span of answer text to the source it came from. The span is
+ * `results[resultIndex].slice(start, end)`; `citedText` is the supporting
+ * excerpt from the source, when the provider reports one.
+ */
+interface Citation {
+  citedText?: string;
+  end: number;
+  resultIndex: number;
+  start: number;
+  title: string;
+  url: string;
+}
+
+/**
+ * A search step the provider actually executed: a (possibly rewritten)
+ * `search` query, opening a page, or finding a pattern within a page.
+ */
+interface SearchAction {
+  pattern?: string;
+  query?: string;
+  type: "find_in_page" | "open_page" | "search";
+  url?: string;
+}
+
+/**
+ * What a search consumed, as reported by the provider: model tokens and
+ * the number of web searches executed.
+ */
+interface SearchUsage {
+  inputTokens: number;
+  outputTokens: number;
+  searches: number;
+}
+
+/**
+ * Identifies the provider and model that handled a search.
+ */
+interface ModelRef {
+  model: string;
+  providerID: string;
+}
+
+/**
+ * A provider that failed before failover moved on to the next one.
+ */
+interface SearchFailure {
+  error: string;
+  model: string;
+  providerID: string;
+}
+
 /**
  * Structured response returned by a web search execution.
  * Contains the original query and an array of results (text or citation hits).
+ *
+ * - `actions`: the searches and page actions the provider executed.
+ * - `citations`: answer text spans linked to their sources, for
+ *   providers that report them.
+ * - `cached`: set when the response was served from the search cache.
+ * - `failed`: set when the provider reported a failure as answer text
+ *   (e.g. a search tool error); such responses are never cached.
+ * - `usage`: tokens and searches consumed, for providers that report it.
+ * - `answeredBy` / `failures`: set when failover skipped past failing
+ *   providers before one answered.
  */
 interface StructuredSearchResponse {
+  actions?: SearchAction[];
+  answeredBy?: ModelRef;
+  cached?: boolean;
+  citations?: Citation[];
+  failed?: boolean;
+  failures?: SearchFailure[];
   query: string;
   results: (SearchHit[] | string)[];
+  usage?: SearchUsage;
+}
+
+// ── Plugin Settings ────────────────────────────────────────────────────
+
+/**
+ * Search result cache settings, from the `websearch.cache` config block.
+ * `ttlSeconds` is how long a cached response stays valid.
+ */
+interface CacheSettings {
+  enabled: boolean;
+  ttlSeconds: number;
+}
+
+/**
+ * Failover settings, from the `websearch.failover` config block.
+ * `maxAttempts` caps how many provider/model candidates are tried.
+ */
+interface FailoverSettings {
+  enabled: boolean;
+  maxAttempts: number;
+}
+
+/**
+ * How `web-search` renders its result: the structured JSON, readable
+ * markdown, or markdown followed by the JSON.
+ */
+type OutputFormat = "both" | "json" | "markdown";
+
+/**
+ * Where xAI's Grok may search: the web, or posts on X.
+ */
+type SearchSource = "web" | "x";
+
+/**
+ * How recent Perplexity's sources must be.
+ */
+type SearchRecency = "day" | "hour" | "month" | "week" | "year";
+
+/**
+ * Budgets that stop runaway search loops, from `websearch.limits`. An
+ * unset limit is not enforced.
+ *
+ * - `maxSearchesPerSession`: `web-search` calls sent to a provider in
+ *   one OpenCode session.
+ * - `maxSearchesPerHour`: calls in the last hour across the project.
+ * - `maxTokensPerSession` / `maxCostPerSession`: input plus output
+ *   tokens, and the estimated USD cost, used by one session.
+ */
+interface SearchLimits {
+  maxCostPerSession?: number;
+  maxSearchesPerHour?: number;
+  maxSearchesPerSession?: number;
+  maxTokensPerSession?: number;
+}
+
+/**
+ * How a provider is asked to search, from the `websearch` block and its
+ * per-provider and per-model overrides.
+ *
+ * - `maxSearchUses`: searches Anthropic may run for one call.
+ * - `maxTokens`: cap on the answer length.
+ * - `maxTurns`: tool-call round trips Moonshot may take.
+ * - `promptTemplate` / `systemPrompt`: templates for the search request
+ *   and the instructions sent with it. `systemPromptFile` names a file in
+ *   the project's `.opencode/` directory whose content replaces
+ *   `systemPrompt`.
+ * - `searchRecency`: only use Perplexity, Brave, Tavily or Exa sources
+ *   published within this period.
+ * - `sources`: what xAI's Grok searches.
+ * - `engines` / `categories`: the SearXNG engines and categories to
+ *   query (empty: the instance defaults).
+ * - `maxResults`: hits a search backend returns.
+ */
+interface SearchTuning {
+  categories: string[];
+  engines: string[];
+  maxResults: number;
+  maxSearchUses: number;
+  maxTokens: number;
+  maxTurns: number;
+  promptTemplate: string;
+  searchRecency?: SearchRecency;
+  sources: SearchSource[];
+  systemPrompt: string;
+  systemPromptFile?: string;
+}
+
+/**
+ * The rendered prompt templates for one search: the request (`prompt`)
+ * and the instructions sent with it (`system`).
+ */
+interface SearchInstructions {
+  prompt: string;
+  system: string;
+}
+
+/**
+ * Per-provider overrides, from `websearch.providers.<providerID>`.
+ * `searchCost` is the USD price of one web search, used for cost
+ * estimates. `limits` replace the global limits field by field when
+ * this provider is about to search. `tuning` overrides the global
+ * tuning for this provider, and `models` per model on top of that.
+ * `apiKey`, `baseURL` and `use` configure a search backend; `summarize`
+ * hands its hits to the first LLM-based candidate to be summarized.
+ * `type` forces the adapter for an OpenCode provider whose type cannot
+ * be detected.
+ */
+interface ProviderSettings {
+  apiKey?: string;
+  baseURL?: string;
+  limits: SearchLimits;
+  models: Record<string, Partial<SearchTuning>>;
+  searchCost?: number;
+  summarize?: boolean;
+  timeouts: Partial<TimeoutSettings>;
+  tuning: Partial<SearchTuning>;
+  type?: ScannableProviderType;
+  use?: WebsearchUse;
+}
+
+/**
+ * Plugin-wide settings read from the top-level `websearch` config block.
+ * `adapters` lists the modules external adapters are imported from.
+ */
+interface WebsearchSettings {
+  adapters: string[];
+  cache: CacheSettings;
+  domains: DomainFilter;
+  failover: FailoverSettings;
+  language?: string;
+  limits: SearchLimits;
+  location?: SearchLocation;
+  output: OutputFormat;
+  providers: Record<string, ProviderSettings>;
+  timeouts: TimeoutSettings;
+  tuning: SearchTuning;
 }
 
 export {
+  AdapterProvider,
+  AdapterType,
+  BackendProviderType,
   ActiveModel,
+  CacheSettings,
+  Citation,
+  DomainFilter,
+  FailoverSettings,
+  ModelRef,
+  OutputFormat,
   ProviderCredentials,
+  ProviderAdapter,
   ProviderResolution,
+  ProviderSettings,
   ProviderType,
   ScannableProviderType,
+  SearchAction,
+  SearchAdapter,
   SearchConfig,
+  SearchFailure,
   SearchHit,
+  SearchInstructions,
+  SearchLimits,
+  SearchLocation,
+  SearchOptions,
+  SearchRecency,
+  SearchSource,
+  SearchTuning,
+  SearchUsage,
   StructuredSearchResponse,
+  TimeoutSettings,
+  WebsearchSettings,
+  WebsearchUse,
 };
@@ -0,0 +1,428 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { AdapterType, SearchUsage, WebsearchSettings } from "./types.js";
+import { PathClient } from "./providers/shared/auth.js";
+import { ProviderData } from "./config.js";
+import { writeFileAtomic } from "./helpers.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/**
+ * Running totals for one provider/model. `calls` counts dispatched
+ * searches (cache hits excluded), `errors` the ones that failed.
+ */
+interface UsageTotals {
+  calls: number;
+  errors: number;
+  inputTokens: number;
+  latencyMs: number;
+  outputTokens: number;
+  searches: number;
+}
+
+interface ModelUsage {
+  model: string;
+  providerID: string;
+  totals: UsageTotals;
+  type: AdapterType;
+}
+
+/**
+ * Usage of a session or project, keyed by `providerID/model`.
+ * `recentCalls` holds the timestamps of the calls made in the last hour.
+ */
+interface UsageBucket {
+  models: Record<string, ModelUsage>;
+  recentCalls?: number[];
+  updatedAt: number;
+}
+
+interface UsageStore {
+  projects: Record<string, UsageBucket>;
+  sessions: Record<string, UsageBucket>;
+}
+
+/**
+ * One dispatched search, as recorded after it finished. `usage` is what
+ * the provider reported; failed searches carry none.
+ */
+interface UsageRecord {
+  failed: boolean;
+  latencyMs: number;
+  model: string;
+  project: string;
+  providerID: string;
+  sessionID: string;
+  type: AdapterType;
+  usage?: SearchUsage;
+}
+
+interface UsageSnapshot {
+  project?: UsageBucket;
+  session?: UsageBucket;
+}
+
+/**
+ * The figures search limits are checked against.
+ */
+interface UsageSummary {
+  calls: number;
+  callsLastHour: number;
+  cost: number;
+  tokens: number;
+}
+
+/**
+ * Searches that passed the budget check but have not been recorded yet.
+ */
+interface PendingCalls {
+  project: number;
+  session: number;
+}
+
+/**
+ * `reserve` counts a search as pending until the returned release
+ * function is called, which happens once the search has been recorded.
+ */
+interface UsageTracker {
+  countPending: (sessionID: string, project: string) => PendingCalls;
+  read: (sessionID: string, project: string) => UsageSnapshot;
+  record: (entry: UsageRecord) => void;
+  reserve: (sessionID: string, project: string) => () => void;
+}
+
+/**
+ * USD prices per million input/output tokens, from OpenCode's model
+ * metadata.
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+const USAGE_FILE_NAME = "websearch-usage.json";
+// Sessions untouched for 30 days are dropped; project totals are kept.
+const SESSION_RETENTION_MS = 2_592_000_000;
+const HOUR_MS = 3_600_000;
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+const MS_PER_SECOND = 1000;
+const COST_DECIMALS = 4;
+const LATENCY_DECIMALS = 1;
+const NO_CALLS = 0;
+const NO_PENDING = 0;
+const NO_COST = 0;
+const NO_USAGE = 0;
+const CALL_INCREMENT = 1;
+
+/**
+ * Published per-search prices ($10 per 1,000 searches) used when
+ * `websearch.providers.<id>.searchCost` is not set. Subscription-backed
+ * providers (ChatGPT, Copilot) have no per-search price.
+ */
+const DEFAULT_SEARCH_COSTS: Partial<Record<AdapterType, number>> = {
+  anthropic: 0.01,
+  openai: 0.01,
+};
+
+// ── Store ──────────────────────────────────────────────────────────────
+
+const createEmptyStore = (): UsageStore => ({ projects: {}, sessions: {} });
+
+const createEmptyTotals = (): UsageTotals => ({
+  calls: NO_USAGE,
+  errors: NO_USAGE,
+  inputTokens: NO_USAGE,
+  latencyMs: NO_USAGE,
+  outputTokens: NO_USAGE,
+  searches: NO_USAGE,
+});
+
+const parseStore = (content: string): UsageStore => {
+  try {
+    const parsed = JSON.parse(content) as Partial<UsageStore> | null;
+
+    return { projects: parsed?.projects ?? {}, sessions: parsed?.sessions ?? {} };
+  } catch {
+    return createEmptyStore();
+  }
+};
+
+const readStore = (filePath: string): UsageStore => {
+  try {
+    return existsSync(filePath) ? parseStore(readFileSync(filePath, "utf8")) : createEmptyStore();
+  } catch {
+    // An unreadable usage file starts the counts over rather than failing the search.
+    return createEmptyStore();
+  }
+};
+
+const writeStore = (filePath: string, store: UsageStore): void => {
+  try {
+    writeFileAtomic(filePath, JSON.stringify(store));
+  } catch {
+    // Usage that cannot be persisted is still tracked for the current process.
+  }
+};
+
+const pruneSessions = (store: UsageStore, now: number): void => {
+  for (const [sessionID, bucket] of Object.entries(store.sessions)) {
+    if (now - bucket.updatedAt > SESSION_RETENTION_MS) {
+      delete store.sessions[sessionID];
+    }
+  }
+};
+
+const countRecentCalls = (bucket: UsageBucket | undefined, now: number): number[] =>
+  (bucket?.recentCalls ?? []).filter((timestamp) => now - timestamp < HOUR_MS);
+
+const addRecord = (bucket: UsageBucket, entry: UsageRecord, now: number): void => {
+  const key = `${entry.providerID}/${entry.model}`;
+  const current = bucket.models[key] ?? {
+    model: entry.model,
+    providerID: entry.providerID,
+    totals: createEmptyTotals(),
+    type: entry.type,
+  };
+  const { totals } = current;
+
+  totals.calls += CALL_INCREMENT;
+  totals.latencyMs += entry.latencyMs;
+  if (entry.failed) {
+    totals.errors += CALL_INCREMENT;
+  }
+  if (entry.usage) {
+    totals.inputTokens += entry.usage.inputTokens;
+    totals.outputTokens += entry.usage.outputTokens;
+    totals.searches += entry.usage.searches;
+  }
+
+  bucket.models[key] = current;
+  bucket.recentCalls = [...countRecentCalls(bucket, now), now];
+  bucket.updatedAt = now;
+};
+
+const resolveUsagePath = async (client: PathClient, directory: string): Promise<string | null> => {
+  const response = await client.path.get({ query: { directory } });
+  const statePath = response.data?.state;
+
+  return statePath ? join(statePath, USAGE_FILE_NAME) : null;
+};
+
+// ── Tracker ────────────────────────────────────────────────────────────
+
+/**
+ * Create a usage tracker backed by `filePath`, or held in memory only
+ * when `filePath` is null. The file is re-read before every update and
+ * replaced atomically, so concurrent OpenCode processes add to the same
+ * totals instead of reading a partly written file as empty.
+ */
+const createUsageTracker = (filePath: string | null): UsageTracker => {
+  let memory = createEmptyStore();
+  const load = (): UsageStore => (filePath ? readStore(filePath) : memory);
+  const pending = new Map<string, number>();
+  const adjustPending = (key: string, delta: number): void => {
+    const next = (pending.get(key) ?? NO_PENDING) + delta;
+    if (next > NO_PENDING) {
+      pending.set(key, next);
+    } else {
+      pending.delete(key);
+    }
+  };
+
+  return {
+    countPending: (sessionID, project) => ({
+      project: pending.get(`project:${project}`) ?? NO_PENDING,
+      session: pending.get(`session:${sessionID}`) ?? NO_PENDING,
+    }),
+
+    read: (sessionID, project) => {
+      const store = load();
+
+      return { project: store.projects[project], session: store.sessions[sessionID] };
+    },
+
+    record: (entry) => {
+      const now = Date.now();
+      const store = load();
+      pruneSessions(store, now);
+
+      store.projects[entry.project] ??= { models: {}, updatedAt: now };
+      store.sessions[entry.sessionID] ??= { models: {}, updatedAt: now };
+      addRecord(store.projects[entry.project], entry, now);
+      addRecord(store.sessions[entry.sessionID], entry, now);
+
+      if (filePath) {
+        writeStore(filePath, store);
+      } else {
+        memory = store;
+      }
+    },
+
+    reserve: (sessionID, project) => {
+      const keys = [`session:${sessionID}`, `project:${project}`];
+      let released = false;
+      for (const key of keys) {
+        adjustPending(key, CALL_INCREMENT);
+      }
+
+      return () => {
+        if (!released) {
+          released = true;
+          for (const key of keys) {
+            adjustPending(key, -CALL_INCREMENT);
+          }
+        }
+      };
+    },
+  };
+};
+
+/**
+ * Open the persistent usage tracker stored under OpenCode's state
+ * directory.
+ */
+const openUsageTracker = async (client: PathClient, directory: string): Promise<UsageTracker> =>
+  createUsageTracker(await resolveUsagePath(client, directory));
+
+// ── Cost estimation ────────────────────────────────────────────────────
+
+/**
+ * Index OpenCode's model prices by `providerID/modelID`.
+ */
+const collectModelPrices = (providers: ProviderData[]): Map<string, ModelPrice> => {
+  const prices = new Map<string, ModelPrice>();
+
+  for (const provider of providers) {
+    for (const model of Object.values(provider.models)) {
+      if (model.cost) {
+        prices.set(`${provider.id}/${model.id}`, model.cost);
+      }
+    }
+  }
+
+  return prices;
+};
+
+const resolveSearchCost = (usage: ModelUsage, settings: WebsearchSettings): number =>
+  settings.providers[usage.providerID]?.searchCost ?? DEFAULT_SEARCH_COSTS[usage.type] ?? NO_COST;
+
+/**
+ * Estimate the USD cost of a model's usage: token prices from OpenCode's
+ * model metadata plus the per-search price. Models without a known
+ * token price only count their searches.
+ */
+const estimateCost = (
+  usage: ModelUsage,
+  prices: Map<string, ModelPrice>,
+  settings: WebsearchSettings,
+): number => {
+  const price = prices.get(`${usage.providerID}/${usage.model}`);
+  const { inputTokens, outputTokens, searches } = usage.totals;
+  const tokenCost = price
+    ? (inputTokens * price.input + outputTokens * price.output) / TOKENS_PER_PRICE_UNIT
+    : NO_COST;
+
+  return tokenCost + searches * resolveSearchCost(usage, settings);
+};
+
+// ── Summaries ──────────────────────────────────────────────────────────
+
+const sumTotals = (models: ModelUsage[]): UsageTotals => {
+  const sum = createEmptyTotals();
+
+  for (const { totals } of models) {
+    sum.calls += totals.calls;
+    sum.errors += totals.errors;
+    sum.inputTokens += totals.inputTokens;
+    sum.latencyMs += totals.latencyMs;
+    sum.outputTokens += totals.outputTokens;
+    sum.searches += totals.searches;
+  }
+
+  return sum;
+};
+
+/**
+ * Summarize a session's or project's usage across all providers.
+ */
+const summarizeUsage = (
+  bucket: UsageBucket | undefined,
+  prices: Map<string, ModelPrice>,
+  settings: WebsearchSettings,
+  now: number,
+): UsageSummary => {
+  const models = Object.values(bucket?.models ?? {});
+  const totals = sumTotals(models);
+
+  return {
+    calls: totals.calls,
+    callsLastHour: countRecentCalls(bucket, now).length,
+    cost: models.reduce((sum, usage) => sum + estimateCost(usage, prices, settings), NO_COST),
+    tokens: totals.inputTokens + totals.outputTokens,
+  };
+};
+
+// ── Reporting ──────────────────────────────────────────────────────────
+
+const describeTotals = (totals: UsageTotals, cost: number): string => {
+  const failed = totals.errors > NO_CALLS ? ` (${totals.errors} failed)` : "";
+  const averageSeconds = totals.latencyMs / totals.calls / MS_PER_SECOND;
+
+  return [
+    `${totals.searches} searches in ${totals.calls} calls${failed}`,
+    `${totals.inputTokens.toLocaleString("en-US")} input / ${totals.outputTokens.toLocaleString("en-US")} output tokens`,
+    `avg latency ${averageSeconds.toFixed(LATENCY_DECIMALS)}s`,
+    `est. cost $${cost.toFixed(COST_DECIMALS)}`,
+  ].join(", ");
+};
+
+const describeBucket = (
+  label: string,
+  bucket: UsageBucket | undefined,
+  prices: Map<string, ModelPrice>,
+  settings: WebsearchSettings,
+): string[] => {
+  const models = Object.values(bucket?.models ?? {});
+  const totals = sumTotals(models);
+  if (totals.calls === NO_CALLS) {
+    return [`${label}: no searches yet.`];
+  }
+
+  const costs = models.map((usage) => estimateCost(usage, prices, settings));
+  const total = costs.reduce((sum, cost) => sum + cost, NO_COST);
+  const lines = models.map(
+    (usage, index) =>
+      `- ${usage.providerID} (${usage.model}): ${describeTotals(usage.totals, costs[index] ?? NO_COST)}`,
+  );
+
+  return [`${label}: ${describeTotals(totals, total)}`, ...lines];
+};
+
+/**
+ * Render the session and project usage with estimated costs, broken
+ * down by provider and model.
+ */
+const formatUsageReport = (
+  snapshot: UsageSnapshot,
+  prices: Map<string, ModelPrice>,
+  settings: WebsearchSettings,
+): string =>
+  [
+    "Web search usage",
+    describeBucket("This session", snapshot.session, prices, settings).join("\n"),
+    describeBucket("This project", snapshot.project, prices, settings).join("\n"),
+  ].join("\n\n");
+
+export {
+  collectModelPrices,
+  formatUsageReport,
+  ModelPrice,
+  openUsageTracker,
+  summarizeUsage,
+  UsageRecord,
+  UsageSummary,
+  UsageTracker,
+};